@@ -0,0 +1,146 @@
+import {
+  AIProviderName,
+  PlanDiffEntry,
+  PlanVersion,
+  StructuredStep,
+} from "@quality-pilot/shared";
+import { generateTestSteps, refineTestSteps } from "./geminiAgent.js";
+import { diffPlans } from "./planDiff.js";
+import { getProvider } from "./providers/index.js";
+import { AICallOptions, UsageContext } from "./usage.js";
+import {
+  appendPlanThread,
+  createPlanVersion,
+  getPinnedPlan,
+  getPlanThread,
+  getPlanVersion,
+  planHash,
+  savePlanVersion,
+} from "../store/planStore.js";
+
+export interface ResolvedPlan {
+  plan: PlanVersion;
+  cached: boolean;
+}
+
+export interface RefinedPlan {
+  plan: PlanVersion;
+  diff: PlanDiffEntry[];
+}
+
+/**
+ * Return the pinned plan for this prompt, URL, provider/model and test data
+ * names, generating and storing a new version only if none exists or
+ * `regenerate` is set. When concurrent first runs both generate a plan, the
+ * one stored first is used by all of them.
+ */
+export async function getPlan(
+  prompt: string,
+  url: string,
+  ai?: AICallOptions,
+  regenerate = false,
+  variables: string[] = []
+): Promise<ResolvedPlan> {
+  const provider = getProvider(ai);
+  const key = {
+    prompt,
+    url,
+    provider: provider.name,
+    model: provider.model,
+    variables,
+  };
+  const hash = planHash(key);
+
+  if (!regenerate) {
+    const pinned = await getPinnedPlan(hash);
+    if (pinned) {
+      return { plan: pinned, cached: true };
+    }
+  }
+
+  const steps = await generateTestSteps(prompt, url, ai, variables);
+  if (regenerate) {
+    const plan = await savePlanVersion(hash, key, steps, "generated");
+    return { plan, cached: false };
+  }
+
+  const { plan, created } = await createPlanVersion(hash, key, steps);
+  return { plan, cached: !created };
+}
+
+/**
+ * Apply a follow-up instruction to a stored plan (the pinned version unless
+ * `version` is given, or `steps` if the user edited the plan by hand),
+ * storing the result as a new pinned version and recording the exchange
+ * in the plan's thread. Returns null if the plan does not exist.
+ */
+export async function refinePlan(
+  hash: string,
+  instruction: string,
+  options: {
+    version?: number;
+    steps?: StructuredStep[];
+    usage?: UsageContext;
+  } = {}
+): Promise<RefinedPlan | null> {
+  const base = options.version
+    ? await getPlanVersion(hash, options.version)
+    : await getPinnedPlan(hash);
+  if (!base) return null;
+
+  const baseSteps = options.steps ?? base.steps;
+  const thread = await getPlanThread(hash);
+  // Refine with the model that produced the plan
+  const ai: AICallOptions = {
+    ...options.usage,
+    provider: base.provider as AIProviderName,
+    model: base.model,
+  };
+
+  const steps = await refineTestSteps(
+    base.prompt,
+    base.url,
+    baseSteps,
+    instruction,
+    thread,
+    ai,
+    base.variables
+  );
+  const plan = await savePlanVersion(hash, base, steps, "refined", {
+    parentVersion: base.version,
+    instruction,
+  });
+  const diff = diffPlans(baseSteps, steps);
+
+  await appendPlanThread(hash, [
+    {
+      role: "user",
+      content: instruction,
+      version: base.version,
+      createdAt: Date.now(),
+    },
+    {
+      role: "assistant",
+      content: summarizeDiff(plan.version, diff),
+      version: plan.version,
+      createdAt: Date.now(),
+    },
+  ]);
+
+  return { plan, diff };
+}
+
+function summarizeDiff(version: number, diff: PlanDiffEntry[]): string {
+  const counts = { added: 0, removed: 0, changed: 0 };
+  for (const entry of diff) {
+    if (entry.type !== "unchanged") counts[entry.type]++;
+  }
+
+  const parts = Object.entries(counts)
+    .filter(([, count]) => count > 0)
+    .map(([type, count]) => `${count} ${type}`);
+
+  return parts.length > 0
+    ? `Updated plan to v${version}: ${parts.join(", ")}`
+    : `Saved plan v${version} with no step changes`;
+}
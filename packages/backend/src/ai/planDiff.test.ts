@@ -0,0 +1,72 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { StructuredStep } from "@quality-pilot/shared";
+import { diffPlans } from "./planDiff.js";
+
+const navigate: StructuredStep = {
+  action: "navigate",
+  target: "/checkout",
+  description: "Open the checkout",
+};
+
+const mockPayments: StructuredStep = {
+  action: "mock",
+  target: "**/api/payments*",
+  mock: { status: 200, body: { ok: true } },
+  description: "Mock the payment API",
+};
+
+describe("diffPlans", () => {
+  it("reports identical plans as unchanged", () => {
+    const diff = diffPlans([navigate, mockPayments], [navigate, mockPayments]);
+    assert.deepEqual(
+      diff.map((entry) => entry.type),
+      ["unchanged", "unchanged"]
+    );
+  });
+
+  it("reports a change to a mock as a changed step", () => {
+    const failing: StructuredStep = {
+      ...mockPayments,
+      mock: { status: 500, body: { ok: true } },
+    };
+    const diff = diffPlans([navigate, mockPayments], [navigate, failing]);
+
+    assert.equal(diff[1].type, "changed");
+    assert.deepEqual(diff[1].type === "changed" && diff[1].fields, ["mock"]);
+  });
+
+  it("reports a change to a target as a changed step", () => {
+    const cart: StructuredStep = { ...navigate, target: "/cart" };
+    const diff = diffPlans([navigate, mockPayments], [cart, mockPayments]);
+
+    assert.equal(diff[0].type, "changed");
+    assert.deepEqual(diff[0].type === "changed" && diff[0].fields, ["target"]);
+    assert.equal(diff[1].type, "unchanged");
+  });
+
+  it("reports a change to step options as a changed step", () => {
+    const patient: StructuredStep = {
+      ...navigate,
+      timeout: 60_000,
+      onFailure: "continue",
+    };
+    const diff = diffPlans([navigate], [patient]);
+
+    assert.equal(diff[0].type, "changed");
+    assert.deepEqual(diff[0].type === "changed" && diff[0].fields, [
+      "onFailure",
+      "timeout",
+    ]);
+  });
+
+  it("ignores the order of fields inside a step", () => {
+    const reordered: StructuredStep = {
+      ...mockPayments,
+      mock: { body: { ok: true }, status: 200 },
+    };
+    const diff = diffPlans([mockPayments], [reordered]);
+
+    assert.equal(diff[0].type, "unchanged");
+  });
+});
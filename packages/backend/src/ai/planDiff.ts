@@ -0,0 +1,96 @@
+import { PlanDiffEntry, StructuredStep } from "@quality-pilot/shared";
+import { structuredStepSchema } from "./schema.js";
+
+// Every field a plan step can have, so a change to any of them (a mock's
+// status, a timeout, an extraction) shows up in the diff
+const STEP_FIELDS = Object.keys(
+  structuredStepSchema.innerType().shape
+) as Array<keyof StructuredStep>;
+
+/**
+ * Step-level diff between two plan versions. Steps are aligned with a
+ * longest common subsequence; a removal directly followed by an addition
+ * of the same action is reported as a change.
+ */
+export function diffPlans(
+  before: StructuredStep[],
+  after: StructuredStep[]
+): PlanDiffEntry[] {
+  const beforeKeys = before.map(stepKey);
+  const afterKeys = after.map(stepKey);
+
+  // lcs[i][j] = LCS length of before[i..] and after[j..]
+  const lcs = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        beforeKeys[i] === afterKeys[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const entries: PlanDiffEntry[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (
+      i < before.length &&
+      j < after.length &&
+      beforeKeys[i] === afterKeys[j]
+    ) {
+      entries.push({ type: "unchanged", index: j, step: after[j] });
+      i++;
+      j++;
+    } else if (
+      i < before.length &&
+      j < after.length &&
+      before[i].action === after[j].action &&
+      lcs[i + 1][j + 1] === lcs[i][j]
+    ) {
+      entries.push({
+        type: "changed",
+        index: j,
+        previousIndex: i,
+        before: before[i],
+        after: after[j],
+        fields: STEP_FIELDS.filter(
+          (field) => canonical(before[i][field]) !== canonical(after[j][field])
+        ),
+      });
+      i++;
+      j++;
+    } else if (
+      j < after.length &&
+      (i >= before.length || lcs[i][j + 1] >= lcs[i + 1][j])
+    ) {
+      entries.push({ type: "added", index: j, step: after[j] });
+      j++;
+    } else {
+      entries.push({ type: "removed", previousIndex: i, step: before[i] });
+      i++;
+    }
+  }
+
+  return entries;
+}
+
+function stepKey(step: StructuredStep): string {
+  return canonical(STEP_FIELDS.map((field) => step[field] ?? null));
+}
+
+/**
+ * JSON with object keys sorted, so fields the model emits in another order
+ * do not count as a change
+ */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.entries(nested).sort(([a], [b]) => a.localeCompare(b))
+        )
+      : nested
+  );
+}
@@ -0,0 +1,45 @@
+// USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+};
+
+let pricing: Record<string, ModelPricing> | null = null;
+
+/**
+ * Default prices merged with LLM_PRICING, a JSON object of
+ * { "<model>": { "input": <usd>, "output": <usd> } } per million tokens
+ */
+function getPricing(): Record<string, ModelPricing> {
+  if (pricing) return pricing;
+  const configured: Record<string, ModelPricing> = {
+    ...DEFAULT_PRICING,
+    ...(process.env.LLM_PRICING ? JSON.parse(process.env.LLM_PRICING) : {}),
+  };
+  pricing = configured;
+  return configured;
+}
+
+/**
+ * Estimated cost of a call in USD. Models without a price (local servers,
+ * fixtures) are free.
+ */
+export function estimateCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  const price = getPricing()[model];
+  if (!price) return 0;
+  return (promptTokens * price.input + completionTokens * price.output) / 1e6;
+}
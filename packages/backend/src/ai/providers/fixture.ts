@@ -0,0 +1,70 @@
+import { readFileSync } from "fs";
+import { AITask, LLMProvider } from "./types.js";
+
+interface FixtureEntry {
+  // Case-insensitive substring of the request prompt; omit to match anything
+  match?: string;
+  // A single response, or one per turn (the last one repeats)
+  response?: unknown;
+  responses?: unknown[];
+}
+
+type FixtureFile = Partial<Record<AITask, FixtureEntry[]>>;
+
+const DEFAULT_PLAN = [
+  { action: "navigate", description: "Open application URL", target: "/" },
+  { action: "screenshot", description: "Capture the page" },
+];
+
+// Used when no fixture entry matches, so a run always has something to execute
+const DEFAULT_RESPONSES: Record<AITask, unknown> = {
+  plan: DEFAULT_PLAN,
+  refine: DEFAULT_PLAN,
+  next_step: { done: true },
+  heal: { selector: null, reason: "Fixture provider does not heal" },
+  diagnose: {
+    cause: "unknown",
+    summary: "Fixture provider does not analyze failures",
+    evidence: [],
+  },
+};
+
+/**
+ * Deterministic provider that answers from a fixture file
+ * (LLM_FIXTURES) instead of a model, for offline and CI runs
+ */
+export function createFixtureProvider(model: string): LLMProvider {
+  const fixturePath = process.env.LLM_FIXTURES;
+  const fixtures: FixtureFile = fixturePath
+    ? JSON.parse(readFileSync(fixturePath, "utf8"))
+    : {};
+
+  return {
+    name: "fixture",
+    model,
+    async complete({ task, system, prompt, turn = 0 }) {
+      const entry = (fixtures[task] ?? []).find(
+        (e) => !e.match || prompt.toLowerCase().includes(e.match.toLowerCase())
+      );
+
+      let response: unknown = DEFAULT_RESPONSES[task];
+      if (entry?.responses && entry.responses.length > 0) {
+        response = entry.responses[Math.min(turn, entry.responses.length - 1)];
+      } else if (entry && "response" in entry) {
+        response = entry.response;
+      }
+
+      const text =
+        typeof response === "string" ? response : JSON.stringify(response);
+
+      // Rough 4-characters-per-token estimate so accounting can be exercised
+      return {
+        text,
+        usage: {
+          promptTokens: Math.ceil((system.length + prompt.length) / 4),
+          completionTokens: Math.ceil(text.length / 4),
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { LLMProvider } from "./types.js";
+
+/**
+ * Google Gemini via @google/generative-ai
+ */
+export function createGeminiProvider(model: string): LLMProvider {
+  return {
+    name: "gemini",
+    model,
+    async complete({ system, prompt }) {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) {
+        throw new Error("GEMINI_API_KEY environment variable is required");
+      }
+
+      const genAI = new GoogleGenerativeAI(apiKey);
+      const result = await genAI
+        .getGenerativeModel({ model })
+        .generateContent([system, prompt]);
+      const response = await result.response;
+
+      const usage = response.usageMetadata;
+
+      return {
+        text: response.text(),
+        usage: usage && {
+          promptTokens: usage.promptTokenCount,
+          completionTokens: usage.candidatesTokenCount,
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import { AIConfig, AIProviderName } from "@quality-pilot/shared";
+import { createGeminiProvider } from "./gemini.js";
+import { createOpenAICompatibleProvider } from "./openaiCompatible.js";
+import { createFixtureProvider } from "./fixture.js";
+import { LLMProvider } from "./types.js";
+
+export * from "./types.js";
+
+const DEFAULT_PROVIDER: AIProviderName = "gemini";
+
+const DEFAULT_MODELS: Record<AIProviderName, string> = {
+  gemini: "gemini-2.5-flash",
+  openai: "gpt-4o-mini",
+  fixture: "fixture",
+};
+
+const PROVIDER_NAMES = Object.keys(DEFAULT_MODELS) as AIProviderName[];
+
+/**
+ * Resolve the provider for a call: per-test config first, then
+ * LLM_PROVIDER / LLM_MODEL from the environment, then Gemini
+ */
+export function getProvider(config?: AIConfig): LLMProvider {
+  const envProvider = parseProviderName(process.env.LLM_PROVIDER);
+  const name = config?.provider || envProvider || DEFAULT_PROVIDER;
+  // LLM_MODEL belongs to LLM_PROVIDER; don't apply it to another provider
+  const envModel =
+    name === (envProvider || DEFAULT_PROVIDER)
+      ? process.env.LLM_MODEL
+      : undefined;
+  const model = config?.model || envModel || DEFAULT_MODELS[name];
+
+  switch (name) {
+    case "openai":
+      return createOpenAICompatibleProvider(model);
+    case "fixture":
+      return createFixtureProvider(model);
+    case "gemini":
+    default:
+      return createGeminiProvider(model);
+  }
+}
+
+function parseProviderName(value?: string): AIProviderName | undefined {
+  if (!value) return undefined;
+  if (!PROVIDER_NAMES.includes(value as AIProviderName)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${value}" (expected ${PROVIDER_NAMES.join(", ")})`
+    );
+  }
+  return value as AIProviderName;
+}
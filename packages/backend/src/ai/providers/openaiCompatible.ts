@@ -0,0 +1,65 @@
+import { LLMProvider } from "./types.js";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+/**
+ * Any server exposing the OpenAI chat completions API
+ * (OpenAI, Ollama, llama.cpp, vLLM, LM Studio, ...)
+ */
+export function createOpenAICompatibleProvider(model: string): LLMProvider {
+  const baseUrl = (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(
+    /\/+$/,
+    ""
+  );
+
+  return {
+    name: "openai",
+    model,
+    async complete({ system, prompt }) {
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+      };
+      // Local servers usually run without a key
+      if (process.env.OPENAI_API_KEY) {
+        headers.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`;
+      }
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model,
+          temperature: 0,
+          messages: [
+            { role: "system", content: system },
+            { role: "user", content: prompt },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => "");
+        throw new Error(
+          `OpenAI-compatible endpoint returned ${response.status}: ${body.slice(0, 500)}`
+        );
+      }
+
+      const data = (await response.json()) as {
+        choices?: Array<{ message?: { content?: string } }>;
+        usage?: { prompt_tokens?: number; completion_tokens?: number };
+      };
+      const text = data.choices?.[0]?.message?.content;
+      if (typeof text !== "string") {
+        throw new Error("OpenAI-compatible endpoint returned no message");
+      }
+
+      return {
+        text,
+        usage: data.usage && {
+          promptTokens: data.usage.prompt_tokens ?? 0,
+          completionTokens: data.usage.completion_tokens ?? 0,
+        },
+      };
+    },
+  };
+}
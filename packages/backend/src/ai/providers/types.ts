@@ -0,0 +1,32 @@
+import { AIProviderName } from "@quality-pilot/shared";
+
+// What the completion is for, so scripted providers can answer per task
+export type AITask = "plan" | "next_step" | "heal" | "diagnose" | "refine";
+
+export interface CompletionRequest {
+  task: AITask;
+  system: string;
+  prompt: string;
+  // Position in a multi-turn exchange (e.g. steps already taken by the agent)
+  turn?: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionResponse {
+  text: string;
+  // Token counts as reported by the backend, when it reports them
+  usage?: TokenUsage;
+}
+
+/**
+ * A text-completion backend used for every AI call
+ */
+export interface LLMProvider {
+  name: AIProviderName;
+  model: string;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
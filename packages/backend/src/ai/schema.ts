@@ -0,0 +1,423 @@
+import { z } from "zod";
+import { TestAction } from "@quality-pilot/shared";
+
+// Mirrors TestAction in @quality-pilot/shared
+export const testActionSchema = z.enum([
+  "navigate",
+  "click",
+  "fill",
+  "select",
+  "wait",
+  "assert",
+  "screenshot",
+  "scroll",
+  "hover",
+  "keyboard",
+  "extract",
+  "mock",
+  "block",
+  "audit",
+]);
+
+export const assertionTypeSchema = z.enum([
+  "text",
+  "value",
+  "attribute",
+  "url",
+  "title",
+  "count",
+  "number",
+  "visible",
+  "hidden",
+  "enabled",
+  "checked",
+  "element",
+  "request",
+  "a11y",
+  "visual",
+  "performance",
+]);
+
+type AssertionType = z.infer<typeof assertionTypeSchema>;
+
+// Mirrors A11yImpact, least severe first
+export const a11yImpactSchema = z.enum([
+  "minor",
+  "moderate",
+  "serious",
+  "critical",
+]);
+
+// Mirrors PerformanceMetricName
+export const performanceMetricSchema = z.enum([
+  "ttfb",
+  "domContentLoaded",
+  "load",
+  "fcp",
+  "lcp",
+  "cls",
+  "inp",
+  "tbt",
+  "requests",
+  "transferBytes",
+]);
+
+// Assertions on the state of the target, which take no expected value
+export const STATE_ASSERTIONS = new Set<AssertionType>([
+  "visible",
+  "hidden",
+  "enabled",
+  "checked",
+]);
+
+// Assertions comparing numbers
+export const NUMERIC_ASSERTIONS = new Set<AssertionType>([
+  "count",
+  "number",
+  "performance",
+]);
+
+// Assertions that need the step to have a target element
+export const TARGETED_ASSERTIONS = new Set<AssertionType>([
+  "value",
+  "attribute",
+  "count",
+  "number",
+  "visible",
+  "hidden",
+  "enabled",
+  "checked",
+]);
+
+const ORDERING_OPERATORS = new Set(["gt", "gte", "lt", "lte"]);
+const NUMERIC_OPERATORS = new Set(["equals", ...ORDERING_OPERATORS]);
+
+const httpMethodSchema = z
+  .string()
+  .regex(/^[A-Za-z]+$/, "must be an HTTP method like POST")
+  .transform((method) => method.toUpperCase());
+
+const httpStatusSchema = z.number().int().min(100).max(599);
+
+// Mirrors Assertion in @quality-pilot/shared (without the runtime fields)
+export const assertionSchema = z
+  .object({
+    type: assertionTypeSchema,
+    expected: z.union([z.string(), z.number()]).optional(),
+    operator: z
+      .enum(["contains", "equals", "matches", "gt", "gte", "lt", "lte"])
+      .optional(),
+    attribute: z.string().min(1).optional(),
+    not: z.boolean().optional(),
+    method: httpMethodSchema.optional(),
+    status: httpStatusSchema.optional(),
+    body: z
+      .record(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+      .optional(),
+    threshold: z.number().min(0).max(1).optional(),
+    mask: z.array(z.string().min(1)).optional(),
+    metric: performanceMetricSchema.optional(),
+  })
+  .superRefine((assertion, ctx) => {
+    const { type, expected, operator } = assertion;
+    const issue = (path: string, message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+
+    if (STATE_ASSERTIONS.has(type)) return;
+
+    if (expected === undefined) {
+      issue("expected", `is required for "${type}" assertions`);
+      return;
+    }
+
+    if (type === "a11y") {
+      if (!a11yImpactSchema.safeParse(expected).success) {
+        issue(
+          "expected",
+          `must be an impact: ${a11yImpactSchema.options.join(", ")}`
+        );
+      }
+      if (operator) issue("operator", 'does not apply to "a11y" assertions');
+      return;
+    }
+
+    if (type === "visual") {
+      if (typeof expected !== "string") {
+        issue("expected", "must be the baseline name");
+      }
+      if (operator) issue("operator", 'does not apply to "visual" assertions');
+      return;
+    }
+
+    if (NUMERIC_ASSERTIONS.has(type)) {
+      // A {{variable}} is converted to a number when the step runs
+      if (typeof expected !== "number" && !hasPlaceholder(expected)) {
+        issue("expected", `must be a number for "${type}" assertions`);
+      }
+      if (operator && !NUMERIC_OPERATORS.has(operator)) {
+        issue("operator", `"${operator}" cannot compare numbers`);
+      }
+    } else if (operator && ORDERING_OPERATORS.has(operator)) {
+      issue(
+        "operator",
+        `"${operator}" only applies to count, number and performance assertions`
+      );
+    }
+    if (operator === "matches" && !isValidPattern(String(expected))) {
+      issue("expected", "must be a valid regular expression");
+    }
+    if (type === "attribute" && !assertion.attribute) {
+      issue("attribute", 'is required for "attribute" assertions');
+    }
+    if (type === "performance" && !assertion.metric) {
+      issue("metric", 'is required for "performance" assertions');
+    } else if (type !== "performance" && assertion.metric) {
+      issue("metric", 'only applies to "performance" assertions');
+    }
+    if (type !== "request") {
+      for (const field of ["method", "status", "body"] as const) {
+        if (assertion[field] !== undefined) {
+          issue(field, 'only applies to "request" assertions');
+        }
+      }
+    }
+    for (const field of ["threshold", "mask"] as const) {
+      if (assertion[field] !== undefined) {
+        issue(field, 'only applies to "visual" assertions');
+      }
+    }
+  });
+
+// Mirrors Extraction
+export const extractionSchema = z
+  .object({
+    variable: z
+      .string()
+      .regex(/^[A-Za-z_]\w*$/, "must be a simple name like orderId"),
+    from: z.enum(["text", "value", "attribute", "url"]),
+    attribute: z.string().min(1).optional(),
+    pattern: z.string().min(1).optional(),
+    secret: z.boolean().optional(),
+  })
+  .superRefine((extraction, ctx) => {
+    if (extraction.from === "attribute" && !extraction.attribute) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["attribute"],
+        message: 'is required when extracting from "attribute"',
+      });
+    }
+    if (extraction.pattern && !isValidPattern(extraction.pattern)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["pattern"],
+        message: "must be a valid regular expression",
+      });
+    }
+  });
+
+// Mirrors NetworkMock
+export const networkMockSchema = z
+  .object({
+    method: httpMethodSchema.optional(),
+    status: httpStatusSchema.optional(),
+    body: z
+      .union([z.string(), z.record(z.unknown()), z.array(z.unknown())])
+      .optional(),
+    contentType: z.string().min(1).optional(),
+    headers: z.record(z.string()).optional(),
+    delayMs: z.number().int().min(0).max(60_000).optional(),
+    abort: z
+      .enum([
+        "aborted",
+        "accessdenied",
+        "addressunreachable",
+        "blockedbyclient",
+        "blockedbyresponse",
+        "connectionaborted",
+        "connectionclosed",
+        "connectionfailed",
+        "connectionrefused",
+        "connectionreset",
+        "internetdisconnected",
+        "namenotresolved",
+        "timedout",
+        "failed",
+      ])
+      .optional(),
+    times: z.number().int().positive().optional(),
+  })
+  .superRefine((mock, ctx) => {
+    const responds = mock.status !== undefined || mock.body !== undefined;
+    if (mock.abort && responds) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["abort"],
+        message: "cannot be combined with a status or body",
+      });
+    }
+    if (!mock.abort && !responds && mock.delayMs === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "needs a status, body, abort or delayMs",
+      });
+    }
+  });
+
+// Mirrors A11yAuditOptions
+export const auditOptionsSchema = z.object({
+  tags: z.array(z.string().min(1)).min(1).optional(),
+  disableRules: z.array(z.string().min(1)).optional(),
+});
+
+function hasPlaceholder(value: string): boolean {
+  return /\{\{[^}]+\}\}/.test(value);
+}
+
+/**
+ * Parse an assertion pattern, written as "pattern" or "/pattern/flags"
+ */
+export function parsePattern(pattern: string): RegExp {
+  const literal = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern);
+}
+
+export function isValidPattern(pattern: string): boolean {
+  try {
+    parsePattern(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Fields each action cannot run without
+const REQUIRED_FIELDS: Partial<
+  Record<
+    TestAction,
+    Array<"target" | "value" | "assertion" | "extract" | "mock">
+  >
+> = {
+  navigate: ["target"],
+  click: ["target"],
+  fill: ["target", "value"],
+  select: ["target", "value"],
+  hover: ["target"],
+  keyboard: ["value"],
+  assert: ["assertion"],
+  extract: ["extract"],
+  mock: ["target", "mock"],
+  block: ["target"],
+};
+
+// Mirrors StructuredStep
+export const structuredStepSchema = z
+  .object({
+    action: testActionSchema,
+    description: z.string().min(1),
+    target: z.string().min(1).optional(),
+    // Models sometimes emit numbers for waits and quantities
+    value: z.union([z.string(), z.number().transform(String)]).optional(),
+    assertion: assertionSchema.optional(),
+    onFailure: z.enum(["stop", "continue", "soft"]).optional(),
+    timeout: z.number().int().positive().optional(),
+    retries: z.number().int().min(0).max(5).optional(),
+    extract: extractionSchema.optional(),
+    mock: networkMockSchema.optional(),
+    audit: auditOptionsSchema.optional(),
+  })
+  .superRefine((step, ctx) => {
+    for (const field of REQUIRED_FIELDS[step.action] ?? []) {
+      if (step[field] === undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [field],
+          message: `is required for "${step.action}" steps`,
+        });
+      }
+    }
+
+    if (
+      step.assertion &&
+      TARGETED_ASSERTIONS.has(step.assertion.type) &&
+      step.target === undefined
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["target"],
+        message: `is required for "${step.assertion.type}" assertions`,
+      });
+    }
+
+    if (
+      step.extract &&
+      step.extract.from !== "url" &&
+      step.target === undefined
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["target"],
+        message: `is required when extracting from "${step.extract.from}"`,
+      });
+    }
+  });
+
+export const stepPlanSchema = z.array(structuredStepSchema).min(1);
+
+// The next agent step, or null when the model answers {"done": true}
+export const nextStepSchema = z.preprocess(
+  (data) =>
+    typeof data === "object" &&
+    data !== null &&
+    (data as { done?: unknown }).done === true
+      ? null
+      : data,
+  structuredStepSchema.nullable()
+);
+
+/**
+ * Turn zod issues into one line per problem, naming the step and field,
+ * e.g. `Step 3 (fill) value: is required for "fill" steps`
+ */
+export function formatValidationIssues(
+  error: z.ZodError,
+  data: unknown
+): string[] {
+  return error.issues.map((issue) => {
+    const path = [...issue.path];
+    const parts: string[] = [];
+
+    if (typeof path[0] === "number") {
+      const index = path.shift() as number;
+      const action = Array.isArray(data) ? data[index]?.action : undefined;
+      parts.push(
+        typeof action === "string"
+          ? `Step ${index + 1} (${action})`
+          : `Step ${index + 1}`
+      );
+    }
+
+    parts.push(path.length > 0 ? `${path.join(".")}:` : "response:");
+    parts.push(issue.message);
+    return parts.join(" ");
+  });
+}
+
+// Mirrors FailureDiagnosis (stepId is filled in by the executor)
+export const diagnosisSchema = z.object({
+  cause: z.enum([
+    "app_bug",
+    "selector_drift",
+    "timing",
+    "bad_test_data",
+    "unknown",
+  ]),
+  summary: z.string().min(1),
+  evidence: z.array(z.string()),
+  suggestedFix: z
+    .object({
+      description: z.string().min(1),
+      step: structuredStepSchema.optional(),
+    })
+    .optional(),
+});
@@ -0,0 +1,122 @@
+import { AIConfig } from "@quality-pilot/shared";
+import {
+  CompletionRequest,
+  CompletionResponse,
+  LLMProvider,
+} from "./providers/index.js";
+import { estimateCost } from "./pricing.js";
+import { getUsageTotals, recordUsage, usageDate } from "../store/usageStore.js";
+
+// Who a model call is billed to
+export interface UsageContext {
+  testId?: string;
+  caller?: string;
+  runBudgetUsd?: number;
+}
+
+// Provider selection plus attribution, accepted by every AI function
+export type AICallOptions = AIConfig & UsageContext;
+
+export type BudgetScope = "run" | "daily" | "caller";
+
+/**
+ * Thrown before a model call once a run, daily or per-caller budget is spent
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly scope: BudgetScope,
+    public readonly spentUsd: number,
+    public readonly budgetUsd: number
+  ) {
+    super(
+      `${BUDGET_LABELS[scope]} AI budget exhausted ($${spentUsd.toFixed(4)} of $${budgetUsd.toFixed(2)})`
+    );
+    this.name = "BudgetExceededError";
+  }
+}
+
+const BUDGET_LABELS: Record<BudgetScope, string> = {
+  run: "Per-run",
+  daily: "Daily",
+  caller: "Caller daily",
+};
+
+/**
+ * Call a provider after checking budgets, and record tokens, latency and
+ * estimated cost against the run and caller
+ */
+export async function callModel(
+  provider: LLMProvider,
+  request: CompletionRequest,
+  context: UsageContext = {}
+): Promise<CompletionResponse> {
+  await assertRunBudget(context);
+  await assertDailyBudget(context.caller);
+
+  const started = Date.now();
+  const response = await provider.complete(request);
+  const latencyMs = Date.now() - started;
+
+  const promptTokens = response.usage?.promptTokens ?? 0;
+  const completionTokens = response.usage?.completionTokens ?? 0;
+
+  // Accounting must never fail the call it describes
+  await recordUsage({
+    task: request.task,
+    provider: provider.name,
+    model: provider.model,
+    promptTokens,
+    completionTokens,
+    latencyMs,
+    costUsd: estimateCost(provider.model, promptTokens, completionTokens),
+    testId: context.testId,
+    caller: context.caller,
+    timestamp: Date.now(),
+  }).catch((error) => console.error("Error recording AI usage:", error));
+
+  return response;
+}
+
+/**
+ * Throws if the global (AI_DAILY_BUDGET_USD) or per-caller
+ * (AI_CALLER_DAILY_BUDGET_USD) budget for today is spent
+ */
+export async function assertDailyBudget(caller?: string): Promise<void> {
+  const date = usageDate();
+
+  const dailyBudget = envBudget("AI_DAILY_BUDGET_USD");
+  if (dailyBudget !== undefined) {
+    const { costUsd } = await getUsageTotals({ type: "day", date });
+    if (costUsd >= dailyBudget) {
+      throw new BudgetExceededError("daily", costUsd, dailyBudget);
+    }
+  }
+
+  const callerBudget = envBudget("AI_CALLER_DAILY_BUDGET_USD");
+  if (caller && callerBudget !== undefined) {
+    const { costUsd } = await getUsageTotals({ type: "caller", caller, date });
+    if (costUsd >= callerBudget) {
+      throw new BudgetExceededError("caller", costUsd, callerBudget);
+    }
+  }
+}
+
+async function assertRunBudget(context: UsageContext): Promise<void> {
+  const budget = context.runBudgetUsd ?? envBudget("AI_RUN_BUDGET_USD");
+  if (!context.testId || budget === undefined) return;
+
+  const { costUsd } = await getUsageTotals({
+    type: "run",
+    testId: context.testId,
+  });
+  if (costUsd >= budget) {
+    throw new BudgetExceededError("run", costUsd, budget);
+  }
+}
+
+function envBudget(name: string): number | undefined {
+  const value = process.env[name];
+  if (!value) return undefined;
+  const budget = Number(value);
+  return Number.isFinite(budget) ? budget : undefined;
+}
@@ -0,0 +1,67 @@
+import { createReadStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { ArtifactStorage } from './storage.js';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.webm': 'video/webm',
+  '.zip': 'application/zip',
+  '.json': 'application/json',
+};
+
+/**
+ * Artifacts as files under a local directory
+ */
+export function createLocalStorage(rootDir: string): ArtifactStorage {
+  const root = path.resolve(rootDir);
+
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid artifact key "${key}"`);
+    }
+    return file;
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, body) {
+      const file = resolve(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, body);
+    },
+
+    async get(key) {
+      const file = resolve(key);
+      const stat = await fs.stat(file).catch(() => null);
+      if (!stat?.isFile()) return null;
+
+      return {
+        body: createReadStream(file),
+        contentType: CONTENT_TYPES[path.extname(file)] || 'application/octet-stream',
+        size: stat.size,
+      };
+    },
+
+    async delete(keys) {
+      for (const key of keys) {
+        const file = resolve(key);
+        await fs.rm(file, { force: true });
+
+        // Remove directories the deletion left empty
+        let dir = path.dirname(file);
+        while (dir !== root && dir.startsWith(root)) {
+          try {
+            await fs.rmdir(dir);
+          } catch {
+            break; // Not empty
+          }
+          dir = path.dirname(dir);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import os from 'os';
+import path from 'path';
+
+// Test ids become key segments, so only allow the characters /run generates
+const TEST_ID_PATTERN = /^[\w-]+$/;
+const ARTIFACT_NAME_PATTERN = /^[\w-]+(\/[\w-]+)*\.\w+$/;
+
+export function isValidTestId(testId: string): boolean {
+  return TEST_ID_PATTERN.test(testId);
+}
+
+export function isValidArtifactName(name: string): boolean {
+  return ARTIFACT_NAME_PATTERN.test(name);
+}
+
+/**
+ * Storage key of an artifact, e.g. "<testId>/screenshots/step_2.png"
+ */
+export function artifactKey(testId: string, name: string): string {
+  return `${testId}/${name}`;
+}
+
+/**
+ * Public download URL of an artifact
+ */
+export function artifactUrl(key: string): string {
+  return `/api/artifacts/${key}`;
+}
+
+/**
+ * Local directory Playwright writes a run's video and trace into before
+ * they are moved to artifact storage
+ */
+export function scratchDir(testId: string): string {
+  return path.join(os.tmpdir(), 'quality-pilot', testId);
+}
@@ -0,0 +1,86 @@
+import { ArtifactKind, ArtifactRecord } from '@quality-pilot/shared';
+import fs from 'fs/promises';
+import { getArtifactStorage } from './storage.js';
+import { artifactKey, artifactUrl } from './paths.js';
+import {
+  appendArtifact,
+  deleteArtifactManifest,
+  getArtifacts,
+  listRunsBefore,
+} from '../store/artifactStore.js';
+
+const DEFAULT_RETENTION_DAYS = 7;
+
+export interface NewArtifact {
+  kind: ArtifactKind;
+  // Path under the run, e.g. "screenshots/step_2.png"
+  name: string;
+  body: Buffer;
+  contentType: string;
+  stepId?: string;
+}
+
+/**
+ * Store an artifact and add it to the run's manifest
+ */
+export async function saveArtifact(testId: string, artifact: NewArtifact): Promise<ArtifactRecord> {
+  const key = artifactKey(testId, artifact.name);
+  await getArtifactStorage().put(key, artifact.body, artifact.contentType);
+
+  const record: ArtifactRecord = {
+    kind: artifact.kind,
+    key,
+    url: artifactUrl(key),
+    stepId: artifact.stepId,
+    contentType: artifact.contentType,
+    size: artifact.body.length,
+    createdAt: Date.now(),
+  };
+  await appendArtifact(testId, record);
+  return record;
+}
+
+/**
+ * Move a file Playwright wrote locally (video, trace) into artifact storage
+ */
+export async function saveArtifactFile(
+  testId: string,
+  file: string,
+  artifact: Omit<NewArtifact, 'body'>
+): Promise<ArtifactRecord> {
+  const record = await saveArtifact(testId, { ...artifact, body: await fs.readFile(file) });
+  await fs.rm(file, { force: true });
+  return record;
+}
+
+/**
+ * Delete the artifacts of runs older than ARTIFACT_RETENTION_DAYS.
+ * Returns the number of runs pruned.
+ */
+export async function pruneArtifacts(now = Date.now()): Promise<number> {
+  const days = Number(process.env.ARTIFACT_RETENTION_DAYS) || DEFAULT_RETENTION_DAYS;
+  const testIds = await listRunsBefore(now - days * 24 * 3600 * 1000);
+
+  for (const testId of testIds) {
+    const artifacts = await getArtifacts(testId);
+    await getArtifactStorage().delete(artifacts.map((artifact) => artifact.key));
+    await deleteArtifactManifest(testId);
+  }
+
+  return testIds.length;
+}
+
+/**
+ * Prune now and then every `intervalMs` for the life of the process
+ */
+export function scheduleArtifactPruning(intervalMs = 60 * 60 * 1000): void {
+  const prune = () =>
+    pruneArtifacts()
+      .then((count) => {
+        if (count > 0) console.log(`🧹 Pruned artifacts of ${count} runs`);
+      })
+      .catch((error) => console.error('Error pruning artifacts:', error));
+
+  prune();
+  setInterval(prune, intervalMs).unref();
+}
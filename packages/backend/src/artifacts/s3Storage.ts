@@ -0,0 +1,85 @@
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { ArtifactStorage } from './storage.js';
+
+// DeleteObjects accepts at most this many keys per request
+const DELETE_BATCH_SIZE = 1000;
+
+/**
+ * Artifacts in an S3-compatible bucket (AWS S3, MinIO, R2, ...).
+ *
+ * S3_BUCKET is required. S3_ENDPOINT points at a non-AWS server and switches
+ * to path-style addressing; S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY override
+ * the default AWS credential chain.
+ */
+export function createS3Storage(): ArtifactStorage {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) {
+    throw new Error('S3_BUCKET environment variable is required for S3 artifact storage');
+  }
+
+  const client = new S3Client({
+    region: process.env.S3_REGION || 'us-east-1',
+    endpoint: process.env.S3_ENDPOINT,
+    forcePathStyle: Boolean(process.env.S3_ENDPOINT),
+    credentials:
+      process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+        ? {
+            accessKeyId: process.env.S3_ACCESS_KEY_ID,
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+          }
+        : undefined,
+  });
+  const prefix = process.env.S3_PREFIX ? `${process.env.S3_PREFIX.replace(/\/+$/, '')}/` : '';
+
+  return {
+    name: 's3',
+
+    async put(key, body, contentType) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: prefix + key,
+          Body: body,
+          ContentType: contentType,
+        })
+      );
+    },
+
+    async get(key) {
+      try {
+        const object = await client.send(
+          new GetObjectCommand({ Bucket: bucket, Key: prefix + key })
+        );
+        return {
+          body: object.Body as Readable,
+          contentType: object.ContentType || 'application/octet-stream',
+          size: object.ContentLength ?? 0,
+        };
+      } catch (error) {
+        if (error instanceof NoSuchKey) return null;
+        throw error;
+      }
+    },
+
+    async delete(keys) {
+      for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+        await client.send(
+          new DeleteObjectsCommand({
+            Bucket: bucket,
+            Delete: {
+              Objects: keys.slice(i, i + DELETE_BATCH_SIZE).map((key) => ({ Key: prefix + key })),
+              Quiet: true,
+            },
+          })
+        );
+      }
+    },
+  };
+}
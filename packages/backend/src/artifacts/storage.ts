@@ -0,0 +1,54 @@
+import { Readable } from 'stream';
+import { createLocalStorage } from './localStorage.js';
+import { createS3Storage } from './s3Storage.js';
+
+export interface StoredObject {
+  body: Readable;
+  contentType: string;
+  size: number;
+}
+
+/**
+ * Where run artifacts (screenshots, videos, traces) are kept.
+ * Keys are relative paths such as "<testId>/screenshots/step_0.png".
+ */
+export interface ArtifactStorage {
+  name: 'local' | 's3';
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(keys: string[]): Promise<void>;
+}
+
+let storage: ArtifactStorage | null = null;
+
+/**
+ * The configured backend: ARTIFACT_STORAGE=local (default) or s3
+ */
+export function getArtifactStorage(): ArtifactStorage {
+  if (!storage) {
+    const backend = process.env.ARTIFACT_STORAGE || 'local';
+    switch (backend) {
+      case 'local':
+        storage = createLocalStorage(process.env.ARTIFACT_DIR || './artifacts');
+        break;
+      case 's3':
+        storage = createS3Storage();
+        break;
+      default:
+        throw new Error(`Unknown ARTIFACT_STORAGE "${backend}"`);
+    }
+  }
+  return storage;
+}
+
+/**
+ * An object's full contents, or null if it does not exist
+ */
+export async function readObject(key: string): Promise<Buffer | null> {
+  const object = await getArtifactStorage().get(key);
+  if (!object) return null;
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of object.body) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
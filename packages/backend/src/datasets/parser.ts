@@ -0,0 +1,81 @@
+import { parse } from 'csv-parse/sync';
+import { DatasetFormat, DatasetRow } from '@quality-pilot/shared';
+
+const DEFAULT_MAX_ROWS = 500;
+
+/**
+ * Thrown when an uploaded dataset cannot be used; the message is safe to
+ * return to the client
+ */
+export class DatasetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatasetError';
+  }
+}
+
+export interface ParsedDataset {
+  columns: string[];
+  rows: DatasetRow[];
+}
+
+/**
+ * Parse CSV (first line is the header) or JSON (an array of objects) into
+ * rows that all have every column; a row missing a column gets null
+ */
+export function parseDataset(format: DatasetFormat, content: string): ParsedDataset {
+  const records = format === 'csv' ? parseCsv(content) : parseJson(content);
+
+  if (records.length === 0) {
+    throw new DatasetError('Dataset has no rows');
+  }
+  const maxRows = Number(process.env.DATASET_MAX_ROWS) || DEFAULT_MAX_ROWS;
+  if (records.length > maxRows) {
+    throw new DatasetError(`Dataset has ${records.length} rows; at most ${maxRows} are allowed`);
+  }
+
+  const columns = [...new Set(records.flatMap((record) => Object.keys(record)))];
+  const rows = records.map((record) =>
+    Object.fromEntries(columns.map((column) => [column, record[column] ?? null]))
+  );
+
+  return { columns, rows };
+}
+
+function parseCsv(content: string): DatasetRow[] {
+  try {
+    return parse(content, {
+      columns: true,
+      bom: true,
+      skip_empty_lines: true,
+      trim: true,
+    });
+  } catch (error) {
+    throw new DatasetError(`Invalid CSV: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function parseJson(content: string): DatasetRow[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new DatasetError(`Invalid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!Array.isArray(data)) {
+    throw new DatasetError('A JSON dataset must be an array of objects');
+  }
+
+  return data.map((row, index) => {
+    if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+      throw new DatasetError(`Row ${index + 1} is not an object`);
+    }
+    for (const [column, value] of Object.entries(row)) {
+      if (typeof value === 'object' && value !== null) {
+        throw new DatasetError(`Row ${index + 1} column "${column}" must be a string, number or boolean`);
+      }
+    }
+    return row as DatasetRow;
+  });
+}
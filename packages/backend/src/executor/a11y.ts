@@ -0,0 +1,126 @@
+import fs from "fs/promises";
+import { createRequire } from "module";
+import { Locator, Page } from "playwright";
+import type { AxeResults, RunOptions } from "axe-core";
+import {
+  A11yAudit,
+  A11yAuditOptions,
+  A11yImpact,
+  A11yViolation,
+} from "@quality-pilot/shared";
+import { a11yImpactSchema } from "../ai/schema.js";
+
+const require = createRequire(import.meta.url);
+
+// Elements kept per violation
+const MAX_NODES = 10;
+const MAX_HTML_LENGTH = 300;
+const CROP_TIMEOUT_MS = 2_000;
+
+let axeSource: Promise<string> | null = null;
+
+/**
+ * Run axe-core on the page, or only inside `scope`. axe is injected from
+ * the installed package, so audits never fetch scripts from the network.
+ */
+export async function runAudit(
+  page: Page,
+  options: A11yAuditOptions = {},
+  scope?: Locator
+): Promise<A11yAudit> {
+  // Evaluated through the protocol, so the page's CSP cannot block it
+  if (!(await page.evaluate(() => "axe" in globalThis))) {
+    axeSource ??= fs.readFile(require.resolve("axe-core/axe.min.js"), "utf8");
+    await page.evaluate(await axeSource);
+  }
+
+  const runOptions: RunOptions = {
+    runOnly: options.tags?.length
+      ? { type: "tag", values: options.tags }
+      : undefined,
+    rules: Object.fromEntries(
+      (options.disableRules ?? []).map((id) => [id, { enabled: false }])
+    ),
+  };
+  const element = scope ? await scope.elementHandle() : null;
+  const results: AxeResults = await page.evaluate(
+    ([context, runOptions]) =>
+      (globalThis as unknown as { axe: typeof import("axe-core") }).axe.run(
+        context ?? document,
+        runOptions
+      ),
+    [element, runOptions] as const
+  );
+
+  return {
+    url: results.url,
+    violations: results.violations.map((violation) => ({
+      id: violation.id,
+      impact: violation.impact ?? undefined,
+      help: violation.help,
+      helpUrl: violation.helpUrl,
+      nodes: violation.nodes.slice(0, MAX_NODES).map((node) => ({
+        target: node.target
+          .map((selector) =>
+            Array.isArray(selector) ? selector.join(" >>> ") : selector
+          )
+          .join(" "),
+        html:
+          node.html.length > MAX_HTML_LENGTH
+            ? `${node.html.slice(0, MAX_HTML_LENGTH)}...`
+            : node.html,
+        failureSummary: node.failureSummary,
+      })),
+    })),
+    passes: results.passes.length,
+    incomplete: results.incomplete.length,
+  };
+}
+
+/**
+ * Violations of `threshold` impact or worse
+ */
+export function violationsAtLeast(
+  audit: A11yAudit,
+  threshold: A11yImpact
+): A11yViolation[] {
+  const impacts = a11yImpactSchema.options;
+  return audit.violations.filter(
+    (violation) =>
+      impacts.indexOf(violation.impact ?? "minor") >= impacts.indexOf(threshold)
+  );
+}
+
+/**
+ * A PNG of the violation's first element, or null if it cannot be taken
+ * (the element is hidden, detached or inside a frame)
+ */
+export async function captureViolation(
+  page: Page,
+  violation: A11yViolation
+): Promise<Buffer | null> {
+  const selector = violation.nodes[0]?.target;
+  if (!selector || selector.includes(">>>")) return null;
+  try {
+    return await page
+      .locator(selector)
+      .first()
+      .screenshot({ type: "png", timeout: CROP_TIMEOUT_MS });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One line summary of violations for logs and assertion messages
+ */
+export function describeViolations(violations: A11yViolation[]): string {
+  return violations
+    .map(
+      (violation) =>
+        `${violation.id} (${violation.impact ?? "unknown"}, ${
+          violation.nodes.length
+        } element${violation.nodes.length === 1 ? "" : "s"})`
+    )
+    .join(", ");
+}
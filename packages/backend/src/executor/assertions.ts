@@ -0,0 +1,442 @@
+import { Locator, Page } from "playwright";
+import {
+  A11yAudit,
+  A11yImpact,
+  Assertion,
+  AssertionOperator,
+  TargetResolution,
+} from "@quality-pilot/shared";
+import { parsePattern } from "../ai/schema.js";
+import { describeViolations, runAudit, violationsAtLeast } from "./a11y.js";
+import { NetworkLog, parseRequestBody } from "./network.js";
+import { collectPerformance } from "./performance.js";
+import { resolveTarget, TargetNotFoundError } from "./targetResolver.js";
+import { compareWithBaseline, VisualCheck, VisualContext } from "./visual.js";
+
+type AssertionSpec = Omit<Assertion, "actual" | "passed">;
+type ActualValue = string | number | boolean | undefined;
+
+export interface AssertionResult {
+  actual: ActualValue;
+  passed: boolean;
+  message: string;
+  resolution?: TargetResolution;
+  // The audit behind an a11y assertion
+  audit?: A11yAudit;
+  // The comparison behind a visual assertion, with its images
+  visual?: VisualCheck;
+}
+
+// Run state some assertion types read
+export interface AssertionContext {
+  // The run's requests so far, for request assertions
+  network?: NetworkLog;
+  // Where visual assertions find baselines, and the step they belong to
+  visual?: VisualContext;
+  stepId?: string;
+}
+
+const VERBS: Record<AssertionOperator, string> = {
+  contains: "to contain",
+  equals: "to equal",
+  matches: "to match",
+  gt: "to be greater than",
+  gte: "to be at least",
+  lt: "to be less than",
+  lte: "to be at most",
+};
+
+// Assertions that never look at the step target
+const PAGE_ASSERTIONS = new Set(["url", "title", "request", "performance"]);
+
+/**
+ * Evaluate an assertion once, scoped to `target` when the step has one.
+ * Failing checks are reported in the result rather than thrown.
+ */
+export async function evaluateAssertion(
+  page: Page,
+  assertion: AssertionSpec,
+  target?: string,
+  context: AssertionContext = {}
+): Promise<AssertionResult> {
+  const { type } = assertion;
+  let element: Locator | null = null;
+  let resolution: TargetResolution | undefined;
+  let missing: TargetNotFoundError | null = null;
+
+  if (target && !PAGE_ASSERTIONS.has(type)) {
+    try {
+      ({ locator: element, resolution } = await resolveTarget(
+        page,
+        target,
+        "assert"
+      ));
+    } catch (error: unknown) {
+      // A missing element is an answer for visibility and count checks
+      if (!(error instanceof TargetNotFoundError)) throw error;
+      missing = error;
+    }
+  }
+
+  const subject = target ? JSON.stringify(target) : "page";
+
+  switch (type) {
+    case "url":
+      return compareValue(assertion, "URL", page.url());
+
+    case "title":
+      return compareValue(assertion, "title", await page.title());
+
+    case "request":
+      return findRequest(assertion, context.network);
+
+    case "performance": {
+      const metric = assertion.metric!;
+      const measurement = await collectPerformance(page);
+      const value = measurement?.metrics[metric];
+      if (value === undefined) {
+        return result(
+          assertion,
+          false,
+          `Expected ${metric} of the page to be measured, but ${
+            measurement ? "the browser does not report it" : "no page is loaded"
+          }`
+        );
+      }
+      return compareValue(assertion, `${metric} of ${page.url()}`, value);
+    }
+
+    case "visible":
+    case "hidden": {
+      const message = `Expected ${subject} ${
+        assertion.not ? "not " : ""
+      }to be ${type}`;
+      const expectsVisible = (type === "visible") !== Boolean(assertion.not);
+      if (!expectsVisible && unmatched(missing)) {
+        return unconfirmedAbsence(message);
+      }
+      const visible = element !== null;
+      return result(
+        assertion,
+        type === "visible" ? visible : !visible,
+        message,
+        resolution
+      );
+    }
+
+    case "element": {
+      const message = `Expected element ${JSON.stringify(
+        target ?? assertion.expected
+      )} ${assertion.not ? "not " : ""}to be visible`;
+      if (assertion.not && unmatched(missing)) {
+        return unconfirmedAbsence(message);
+      }
+      // Without a target, `expected` holds a selector
+      const visible = target
+        ? element !== null
+        : await page.locator(String(assertion.expected)).first().isVisible();
+      return result(assertion, visible, message, resolution);
+    }
+
+    case "count": {
+      // Visible matches of the strategy that resolved the target
+      const count = resolution
+        ? (resolution.candidates.find(
+            (c) => c.selector === resolution!.selector
+          )?.visible ?? 0)
+        : 0;
+      return compareValue(assertion, `count of ${subject}`, count, resolution);
+    }
+
+    case "text":
+      if (!target) {
+        const text = (await page.textContent("body")) ?? "";
+        return compareValue(assertion, "page text", text);
+      }
+      break;
+
+    case "a11y": {
+      if (target && !element) throw missing;
+      const audit = await runAudit(page, {}, element ?? undefined);
+      const threshold = String(assertion.expected) as A11yImpact;
+      const violations = violationsAtLeast(audit, threshold);
+      return {
+        ...result(
+          assertion,
+          violations.length === 0,
+          `Expected ${
+            assertion.not ? "" : "no "
+          }accessibility violations of ${threshold} impact or worse in ${subject}, found ${
+            violations.length
+          }${violations.length > 0 ? `: ${describeViolations(violations)}` : ""}`,
+          resolution
+        ),
+        actual: violations.map((violation) => violation.id).join(", "),
+        audit,
+      };
+    }
+
+    case "visual": {
+      if (target && !element) throw missing;
+      if (!context.visual || !context.stepId) {
+        throw new Error("Visual assertions need a run step");
+      }
+      const masks = await Promise.all(
+        (assertion.mask ?? []).map(
+          async (mask) => (await resolveTarget(page, mask, "assert")).locator
+        )
+      );
+      const name = String(assertion.expected);
+      const check = await compareWithBaseline(
+        page,
+        context.visual,
+        context.stepId,
+        name,
+        assertion.threshold,
+        element ?? undefined,
+        masks
+      );
+      const message = check.mismatch
+        ? `Expected screenshot of ${subject} to match baseline "${name}", but the ${check.mismatch}`
+        : `Expected screenshot of ${subject} ${
+            assertion.not ? "not " : ""
+          }to match baseline "${name}", ${formatPercent(
+            check.diffRatio ?? 0
+          )} of pixels differ`;
+      return {
+        ...result(assertion, check.passed, message, resolution),
+        actual: check.diffRatio ?? (check.mismatch ? 1 : 0),
+        visual: check,
+      };
+    }
+  }
+
+  // The remaining checks read a property of the target element
+  if (!element) throw missing ?? new TargetNotFoundError(target ?? "", []);
+
+  switch (type) {
+    case "text":
+      return compareValue(
+        assertion,
+        `text of ${subject}`,
+        await element.innerText(),
+        resolution
+      );
+
+    case "value":
+      return compareValue(
+        assertion,
+        `value of ${subject}`,
+        await element.inputValue(),
+        resolution
+      );
+
+    case "attribute":
+      return compareValue(
+        assertion,
+        `attribute "${assertion.attribute}" of ${subject}`,
+        (await element.getAttribute(assertion.attribute ?? "")) ?? undefined,
+        resolution
+      );
+
+    case "number":
+      return compareValue(
+        assertion,
+        `number in ${subject}`,
+        parseNumber(await element.innerText()),
+        resolution
+      );
+
+    case "enabled":
+    case "checked": {
+      const state =
+        type === "enabled"
+          ? await element.isEnabled()
+          : await element.isChecked();
+      return result(
+        assertion,
+        state,
+        `Expected ${subject} ${assertion.not ? "not " : ""}to be ${type}`,
+        resolution
+      );
+    }
+  }
+}
+
+/**
+ * Pass when a request so far has a URL matching `expected` and the
+ * assertion's method, status and body fields. The actual value names the
+ * closest request to the URL, or is undefined if no URL matched.
+ */
+function findRequest(
+  assertion: AssertionSpec,
+  network?: NetworkLog
+): AssertionResult {
+  const operator = assertion.operator || "contains";
+  const expected = assertion.expected ?? "";
+  const candidates = (network?.requests ?? []).filter(({ request }) =>
+    compare(request.url(), expected, operator)
+  );
+  const match = candidates.find(
+    ({ entry, request }) =>
+      (!assertion.method || entry.method === assertion.method) &&
+      (assertion.status === undefined || entry.status === assertion.status) &&
+      bodyMatches(parseRequestBody(request), assertion.body)
+  );
+  const closest = match ?? candidates[candidates.length - 1];
+
+  const conditions = [
+    assertion.status !== undefined && `status ${assertion.status}`,
+    assertion.body && `body ${JSON.stringify(assertion.body)}`,
+  ].filter(Boolean);
+  const description = `${assertion.method ?? ""} request with URL ${
+    VERBS[operator]
+  } ${JSON.stringify(expected)}${
+    conditions.length > 0 ? ` and ${conditions.join(" and ")}` : ""
+  }`.trim();
+
+  const actual =
+    closest &&
+    `${closest.entry.method} ${closest.entry.url} → ${
+      closest.entry.status ?? closest.entry.failure ?? "pending"
+    }`;
+
+  return {
+    ...result(
+      assertion,
+      match !== undefined,
+      `Expected ${assertion.not ? "no " : "a "}${description}, got ${
+        candidates.length === 0
+          ? "no request to a matching URL"
+          : `${candidates.length} to a matching URL, the last ${actual}`
+      }`
+    ),
+    actual,
+  };
+}
+
+/**
+ * Whether every expected field (a dot path) has the expected value
+ */
+function bodyMatches(
+  body: unknown,
+  expected?: Record<string, string | number | boolean | null>
+): boolean {
+  if (!expected) return true;
+  return Object.entries(expected).every(([path, value]) => {
+    const actual = path
+      .split(".")
+      .reduce<unknown>(
+        (object, key) =>
+          object !== null && typeof object === "object"
+            ? (object as Record<string, unknown>)[key]
+            : undefined,
+        body
+      );
+    // Form fields are strings, so compare as text
+    return value === null
+      ? actual === null || actual === undefined
+      : actual !== undefined && String(actual) === String(value);
+  });
+}
+
+function compareValue(
+  assertion: AssertionSpec,
+  description: string,
+  actual: ActualValue,
+  resolution?: TargetResolution
+): AssertionResult {
+  const operator = assertion.operator || defaultOperator(assertion);
+  const expected = assertion.expected ?? "";
+  const matched = actual !== undefined && compare(actual, expected, operator);
+
+  return {
+    ...result(
+      assertion,
+      matched,
+      `Expected ${description} ${assertion.not ? "not " : ""}${
+        VERBS[operator]
+      } ${JSON.stringify(expected)}, got ${JSON.stringify(truncate(actual))}`,
+      resolution
+    ),
+    actual,
+  };
+}
+
+/**
+ * A result whose actual value is the check itself (visible, checked, ...)
+ */
+function result(
+  assertion: AssertionSpec,
+  matched: boolean,
+  message: string,
+  resolution?: TargetResolution
+): AssertionResult {
+  const passed = assertion.not ? !matched : matched;
+  return { actual: matched, passed, message, resolution };
+}
+
+// Hidden matches show a target exists; with no match at all a wrong target
+// would pass every "not visible" check
+function unmatched(missing: TargetNotFoundError | null): boolean {
+  return missing !== null && missing.candidates.length === 0;
+}
+
+function unconfirmedAbsence(message: string): AssertionResult {
+  return {
+    actual: undefined,
+    passed: false,
+    message: `${message}, but no element matches the target, so its absence cannot be confirmed`,
+  };
+}
+
+function defaultOperator(assertion: AssertionSpec): AssertionOperator {
+  if (assertion.type === "performance") return "lte";
+  return ["text", "url", "title"].includes(assertion.type)
+    ? "contains"
+    : "equals";
+}
+
+function compare(
+  actual: string | number | boolean,
+  expected: string | number,
+  operator: AssertionOperator
+): boolean {
+  switch (operator) {
+    case "contains":
+      return String(actual).includes(String(expected));
+    case "equals":
+      return typeof expected === "number"
+        ? Number(actual) === expected
+        : String(actual).trim() === expected.trim();
+    case "matches":
+      return parsePattern(String(expected)).test(String(actual));
+    case "gt":
+      return Number(actual) > Number(expected);
+    case "gte":
+      return Number(actual) >= Number(expected);
+    case "lt":
+      return Number(actual) < Number(expected);
+    case "lte":
+      return Number(actual) <= Number(expected);
+  }
+}
+
+/**
+ * The first number in a text, ignoring currency symbols and thousands
+ * separators ("$1,234.50" -> 1234.5); undefined if there is none
+ */
+function parseNumber(text: string): number | undefined {
+  const match = /-?\d[\d,]*(\.\d+)?/.exec(text);
+  return match ? Number(match[0].replace(/,/g, "")) : undefined;
+}
+
+function formatPercent(ratio: number): string {
+  return `${(ratio * 100).toFixed(2)}%`;
+}
+
+function truncate(value: ActualValue, maxLength = 200): ActualValue {
+  return typeof value === "string" && value.length > maxLength
+    ? `${value.slice(0, maxLength)}...`
+    : value;
+}
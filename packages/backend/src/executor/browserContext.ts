@@ -0,0 +1,88 @@
+import { Browser, BrowserContextOptions, Page, devices } from "playwright";
+import {
+  BrowserName,
+  RunEnvironment,
+  TestOptions,
+} from "@quality-pilot/shared";
+
+const DEFAULT_VIEWPORT = { width: 1280, height: 720 };
+
+/**
+ * Context options for a run: the device profile first, then the explicit
+ * viewport, user agent, locale, timezone, geolocation, color scheme,
+ * permissions and headers on top of it
+ */
+export function buildContextOptions(
+  options: TestOptions = {},
+  browserType: BrowserName
+): BrowserContextOptions {
+  const device = options.device
+    ? deviceProfile(options.device, browserType)
+    : undefined;
+  // Geolocation is only readable with the permission granted
+  const permissions = [
+    ...new Set([
+      ...(options.permissions ?? []),
+      ...(options.geolocation ? ["geolocation"] : []),
+    ]),
+  ];
+
+  return {
+    ...device,
+    viewport: options.viewport || device?.viewport || DEFAULT_VIEWPORT,
+    userAgent: options.userAgent || device?.userAgent,
+    locale: options.locale,
+    timezoneId: options.timezone,
+    geolocation: options.geolocation,
+    colorScheme: options.colorScheme,
+    permissions: permissions.length > 0 ? permissions : undefined,
+    extraHTTPHeaders: options.extraHTTPHeaders,
+  };
+}
+
+/**
+ * What the run actually ran with, for the execution record
+ */
+export async function describeEnvironment(
+  browser: Browser,
+  page: Page,
+  browserType: BrowserName,
+  options: TestOptions = {},
+  contextOptions: BrowserContextOptions
+): Promise<RunEnvironment> {
+  return {
+    browser: browserType,
+    browserVersion: browser.version(),
+    viewport: page.viewportSize(),
+    device: options.device,
+    userAgent: await page.evaluate(() => navigator.userAgent),
+    isMobile: contextOptions.isMobile,
+    locale: contextOptions.locale,
+    timezone: contextOptions.timezoneId,
+    geolocation: contextOptions.geolocation,
+    colorScheme: contextOptions.colorScheme ?? undefined,
+    permissions: contextOptions.permissions,
+    extraHTTPHeaders: contextOptions.extraHTTPHeaders
+      ? Object.keys(contextOptions.extraHTTPHeaders)
+      : undefined,
+  };
+}
+
+/**
+ * Context options for a Playwright device profile, run in `browserType`
+ * rather than the profile's default browser
+ */
+function deviceProfile(
+  name: string,
+  browserType: BrowserName
+): BrowserContextOptions {
+  const descriptor = devices[name];
+  if (!descriptor) throw new Error(`Unknown device profile "${name}"`);
+
+  // The run's browser replaces the profile's default browser
+  const profile: BrowserContextOptions = { ...descriptor };
+  delete (profile as { defaultBrowserType?: string }).defaultBrowserType;
+  // Firefox cannot emulate mobile viewports
+  if (browserType === "firefox") delete profile.isMobile;
+  return profile;
+}
@@ -0,0 +1,131 @@
+import { ConsoleMessage, Page } from "playwright";
+import {
+  BrowserErrorPolicy,
+  BrowserLogCounts,
+  BrowserLogEntry,
+  BrowserLogLevel,
+} from "@quality-pilot/shared";
+import { parsePattern } from "../ai/schema.js";
+import { NetworkLog } from "./network.js";
+
+const DEFAULT_MAX_ENTRIES = 500;
+const MAX_TEXT_LENGTH = 2_000;
+
+// Failures caused by the page moving on rather than by the server
+const CANCELLED_REQUEST = /ERR_ABORTED|NS_BINDING_ABORTED|cancelled/i;
+
+/**
+ * Report the page's console messages, uncaught exceptions and failed
+ * requests from now on, tagged with the step that was running
+ */
+export function recordBrowserLogs(
+  page: Page,
+  network: NetworkLog,
+  currentStepId: () => string | undefined,
+  onEntry: (entry: BrowserLogEntry) => void
+): void {
+  const report = (entry: Omit<BrowserLogEntry, "stepId" | "timestamp">) =>
+    onEntry({
+      ...entry,
+      text: truncate(entry.text),
+      stepId: currentStepId(),
+      timestamp: Date.now(),
+    });
+
+  page.on("console", (message) => {
+    const { url, lineNumber } = message.location();
+    report({
+      source: "console",
+      level: consoleLevel(message),
+      text: message.text(),
+      location: url ? `${url}:${lineNumber + 1}` : undefined,
+    });
+  });
+  page.on("pageerror", (error) => {
+    report({
+      source: "pageerror",
+      level: "error",
+      text: `Uncaught ${error.name}: ${error.message}`,
+    });
+  });
+  page.on("requestfailed", (request) => {
+    const failure = request.failure()?.errorText ?? "failed";
+    // Requests a mock or block step failed on purpose are expected
+    const level: BrowserLogLevel = network.intercepted.has(request)
+      ? "info"
+      : CANCELLED_REQUEST.test(failure)
+        ? "warning"
+        : "error";
+    report({
+      source: "requestfailed",
+      level,
+      text: `${request.method()} ${request.url()} failed: ${failure}`,
+      location: request.url(),
+    });
+  });
+}
+
+/**
+ * The run's fail-on-error policy, or null when browser errors are only logged
+ */
+export function errorPolicy(
+  failOnError?: boolean | BrowserErrorPolicy
+): BrowserErrorPolicy | null {
+  if (!failOnError) return null;
+  return failOnError === true ? {} : failOnError;
+}
+
+/**
+ * Whether an entry fails its step under `policy`
+ */
+export function isFailingError(
+  entry: BrowserLogEntry,
+  policy: BrowserErrorPolicy
+): boolean {
+  if (entry.level !== "error") return false;
+  if (policy.sources && !policy.sources.includes(entry.source)) return false;
+  return !(policy.allow ?? []).some((pattern) =>
+    parsePattern(pattern).test(entry.text)
+  );
+}
+
+/**
+ * The entries as stored on the execution, oldest first
+ */
+export function storedBrowserLogs(
+  entries: BrowserLogEntry[]
+): BrowserLogEntry[] {
+  const maxEntries =
+    Number(process.env.BROWSER_LOG_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES;
+  return entries.slice(0, maxEntries);
+}
+
+/**
+ * Stored entries per level, for completion events
+ */
+export function countBrowserLogs(entries: BrowserLogEntry[]): BrowserLogCounts {
+  const counts: BrowserLogCounts = { debug: 0, info: 0, warning: 0, error: 0 };
+  for (const entry of entries) counts[entry.level]++;
+  return counts;
+}
+
+function consoleLevel(message: ConsoleMessage): BrowserLogLevel {
+  switch (message.type()) {
+    case "error":
+    case "assert":
+      return "error";
+    case "warning":
+      return "warning";
+    case "debug":
+    case "trace":
+      return "debug";
+    default:
+      return "info";
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TEXT_LENGTH
+    ? `${text.slice(0, MAX_TEXT_LENGTH)}...`
+    : text;
+}
@@ -0,0 +1,187 @@
+import { Page, Request, Route } from "playwright";
+import {
+  NetworkLogEntry,
+  NetworkMock,
+  NetworkSummary,
+} from "@quality-pilot/shared";
+
+type Intercept = NonNullable<NetworkLogEntry["intercepted"]>;
+
+interface RecordedRequest {
+  entry: NetworkLogEntry;
+  request: Request;
+}
+
+// Every request of one run, with how mock and block steps handled them
+export interface NetworkLog {
+  requests: RecordedRequest[];
+  intercepted: WeakMap<Request, Intercept>;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Record the page's requests from now on, tagged with the step that was
+ * running when each one started
+ */
+export function recordNetwork(
+  page: Page,
+  currentStepId: () => string | undefined
+): NetworkLog {
+  const log: NetworkLog = { requests: [], intercepted: new WeakMap() };
+  const entries = new Map<Request, NetworkLogEntry>();
+
+  page.on("request", (request) => {
+    const entry: NetworkLogEntry = {
+      method: request.method(),
+      url: request.url(),
+      resourceType: request.resourceType(),
+      stepId: currentStepId(),
+      startTime: Date.now(),
+    };
+    entries.set(request, entry);
+    log.requests.push({ entry, request });
+  });
+  page.on("response", (response) => {
+    const entry = entries.get(response.request());
+    if (entry) entry.status = response.status();
+  });
+  page.on("requestfinished", (request) => {
+    const entry = entries.get(request);
+    if (entry) entry.durationMs = Date.now() - entry.startTime;
+  });
+  page.on("requestfailed", (request) => {
+    const entry = entries.get(request);
+    if (!entry) return;
+    entry.failure = request.failure()?.errorText;
+    entry.durationMs = Date.now() - entry.startTime;
+  });
+
+  return log;
+}
+
+/**
+ * Answer requests whose URL matches `pattern` as `mock` says. A pattern
+ * containing "*" is a glob; any other pattern matches as a substring of
+ * the URL. Later mocks take precedence; requests a mock passes on reach
+ * earlier ones, then the network.
+ */
+export async function addMock(
+  page: Page,
+  log: NetworkLog,
+  pattern: string,
+  mock: NetworkMock
+): Promise<void> {
+  let handled = 0;
+
+  await page.route(urlMatcher(pattern), async (route: Route) => {
+    const request = route.request();
+    const exhausted = mock.times !== undefined && handled >= mock.times;
+    if (exhausted || (mock.method && request.method() !== mock.method)) {
+      return route.fallback();
+    }
+    handled++;
+
+    if (mock.delayMs) await sleep(mock.delayMs);
+
+    if (mock.abort) {
+      log.intercepted.set(request, "aborted");
+      return route.abort(mock.abort);
+    }
+
+    if (mock.status !== undefined || mock.body !== undefined) {
+      log.intercepted.set(request, "mocked");
+      const json = mock.body !== undefined && typeof mock.body !== "string";
+      return route.fulfill({
+        status: mock.status ?? 200,
+        headers: mock.headers,
+        contentType:
+          mock.contentType ?? (json ? "application/json" : "text/plain"),
+        body: json ? JSON.stringify(mock.body) : (mock.body as string),
+      });
+    }
+
+    log.intercepted.set(request, "delayed");
+    return route.fallback();
+  });
+}
+
+/**
+ * Fail every request to the given hosts, written as "example.com" (which
+ * includes its subdomains) or "*.example.com" (subdomains only)
+ */
+export async function blockHosts(
+  page: Page,
+  log: NetworkLog,
+  hosts: string[]
+): Promise<void> {
+  await page.route(
+    (url) => hosts.some((host) => matchesHost(url.hostname, host)),
+    (route) => {
+      log.intercepted.set(route.request(), "blocked");
+      return route.abort("blockedbyclient");
+    }
+  );
+}
+
+/**
+ * Split a block step's target into host names, accepting full URLs too
+ */
+export function parseHosts(target: string): string[] {
+  return target
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean)
+    .map((host) => (host.includes("://") ? new URL(host).hostname : host));
+}
+
+/**
+ * The request's body as JSON, or as form fields; undefined without a body
+ */
+export function parseRequestBody(request: Request): unknown {
+  const body = request.postData();
+  if (!body) return undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return Object.fromEntries(new URLSearchParams(body));
+  }
+}
+
+/**
+ * The log as stored on the execution, oldest requests first
+ */
+export function networkLogEntries(log: NetworkLog): NetworkLogEntry[] {
+  const maxEntries =
+    Number(process.env.NETWORK_LOG_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES;
+  return log.requests.slice(0, maxEntries).map(({ entry, request }) => ({
+    ...entry,
+    intercepted: log.intercepted.get(request),
+  }));
+}
+
+/**
+ * Counts of a stored network log, for completion events
+ */
+export function summarizeNetwork(entries: NetworkLogEntry[]): NetworkSummary {
+  return {
+    requests: entries.length,
+    failed: entries.filter(
+      (entry) => entry.failure !== undefined || (entry.status ?? 0) >= 400
+    ).length,
+    intercepted: entries.filter((entry) => entry.intercepted).length,
+  };
+}
+
+function urlMatcher(pattern: string): string | ((url: URL) => boolean) {
+  return pattern.includes("*") ? pattern : (url) => url.href.includes(pattern);
+}
+
+function matchesHost(hostname: string, host: string): boolean {
+  if (host.startsWith("*.")) return hostname.endsWith(host.slice(1));
+  return hostname === host || hostname.endsWith(`.${host}`);
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
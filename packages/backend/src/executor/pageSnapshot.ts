@@ -0,0 +1,217 @@
+import { Page } from "playwright";
+
+export interface PageSnapshot {
+  url: string;
+  title: string;
+  ariaTree: string;
+  dom: string;
+  interactiveElements: string[];
+}
+
+const DEFAULT_MAX_LENGTH = 8000;
+const MAX_INTERACTIVE_ELEMENTS = 100;
+const MASK = "••••••";
+// Shorter field values are too likely to match unrelated page text
+const MIN_MASKED_LENGTH = 3;
+// Aria tree lines of editable fields print the field's value after the colon
+const ARIA_FIELD_VALUE =
+  /^(\s*- (?:textbox|searchbox)(?: "(?:[^"\\]|\\.)*")?(?: \[[^\]]*\])*):[ ].*$/gm;
+
+// Attributes that help identify an element without leaking field values
+const KEPT_ATTRIBUTES = [
+  "id",
+  "name",
+  "type",
+  "role",
+  "aria-label",
+  "placeholder",
+  "href",
+  "for",
+  "title",
+  "alt",
+  "data-testid",
+  "data-test",
+  "data-qa",
+  "data-cy",
+];
+
+/**
+ * Capture a compact description of the current page for the AI layer:
+ * the accessibility tree, a trimmed DOM outline and the visible
+ * interactive elements. Field values are masked and `redact` is applied to
+ * all of it, so nothing typed into the page reaches a prompt.
+ */
+export async function capturePageSnapshot(
+  page: Page,
+  redact: (text: string) => string,
+  maxLength = DEFAULT_MAX_LENGTH
+): Promise<PageSnapshot> {
+  const [title, ariaTree, dom, interactiveElements, fieldValues] =
+    await Promise.all([
+      page.title().catch(() => ""),
+      page
+        .locator("body")
+        .ariaSnapshot()
+        .catch(() => ""),
+      page.evaluate(serializeDom, KEPT_ATTRIBUTES).catch(() => ""),
+      page
+        .evaluate(listInteractiveElements, MAX_INTERACTIVE_ELEMENTS)
+        .catch(() => [] as string[]),
+      page.evaluate(listFieldValues).catch(() => [] as string[]),
+    ]);
+  const clean = (text: string) => redact(maskValues(text, fieldValues));
+
+  return {
+    url: redact(page.url()),
+    title: clean(title),
+    ariaTree: truncate(
+      clean(ariaTree.replace(ARIA_FIELD_VALUE, `$1: ${MASK}`)),
+      maxLength
+    ),
+    dom: truncate(clean(dom), maxLength),
+    interactiveElements: interactiveElements.map(clean),
+  };
+}
+
+/**
+ * Replace each line of the given field values with the mask, longest first
+ * so a value containing another is replaced whole
+ */
+function maskValues(text: string, values: string[]): string {
+  return values
+    .flatMap((value) => value.split("\n"))
+    .map((line) => line.trim())
+    .filter((line) => line.length >= MIN_MASKED_LENGTH)
+    .sort((a, b) => b.length - a.length)
+    .reduce((masked, line) => masked.split(line).join(MASK), text);
+}
+
+/**
+ * Runs in the page: current values of text fields, including ones the user
+ * typed (which the DOM attributes do not show)
+ */
+function listFieldValues(): string[] {
+  const skippedTypes = new Set([
+    "checkbox",
+    "radio",
+    "submit",
+    "button",
+    "reset",
+    "image",
+    "file",
+    "range",
+    "color",
+  ]);
+  return Array.from(document.querySelectorAll("input, textarea"))
+    .filter((element) => !skippedTypes.has((element as HTMLInputElement).type))
+    .map((element) => (element as HTMLInputElement).value)
+    .filter(Boolean);
+}
+
+/**
+ * Runs in the page: outline visible elements with identifying attributes
+ * and their own text, skipping scripts, styles and hidden subtrees
+ */
+function serializeDom(keptAttributes: string[]): string {
+  const skipped = new Set([
+    "SCRIPT",
+    "STYLE",
+    "NOSCRIPT",
+    "TEMPLATE",
+    "SVG",
+    "PATH",
+    "META",
+    "LINK",
+  ]);
+  const lines: string[] = [];
+
+  const walk = (element: Element, depth: number) => {
+    if (skipped.has(element.tagName.toUpperCase())) return;
+    const style = globalThis.getComputedStyle(element);
+    if (style.display === "none" || style.visibility === "hidden") return;
+
+    const attributes = keptAttributes
+      .filter((name) => element.hasAttribute(name))
+      .map((name) => `${name}="${element.getAttribute(name)}"`)
+      .join(" ");
+    const ownText = Array.from(element.childNodes)
+      .filter((node) => node.nodeType === Node.TEXT_NODE)
+      .map((node) => node.textContent?.trim() ?? "")
+      .filter(Boolean)
+      .join(" ")
+      .slice(0, 80);
+
+    lines.push(
+      `${"  ".repeat(depth)}<${element.tagName.toLowerCase()}${
+        attributes ? ` ${attributes}` : ""
+      }>${ownText}`
+    );
+
+    for (const child of Array.from(element.children)) {
+      walk(child, depth + 1);
+    }
+  };
+
+  walk(document.body, 0);
+  return lines.join("\n");
+}
+
+/**
+ * Runs in the page: one line per visible control, e.g.
+ * `button "Sign in"` or `input[type=email] name="email" placeholder="Email"`
+ */
+function listInteractiveElements(limit: number): string[] {
+  const selector = [
+    "a[href]",
+    "button",
+    "input:not([type=hidden])",
+    "select",
+    "textarea",
+    "[role=button]",
+    "[role=link]",
+    "[role=tab]",
+    "[role=menuitem]",
+    "[role=checkbox]",
+    "[role=radio]",
+    "[role=switch]",
+    "[role=combobox]",
+    "[contenteditable=true]",
+  ].join(", ");
+  const lines: string[] = [];
+
+  for (const element of Array.from(document.querySelectorAll(selector))) {
+    if (lines.length >= limit) break;
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) continue;
+
+    const tag = element.tagName.toLowerCase();
+    const type = element.getAttribute("type");
+    const role = element.getAttribute("role");
+    const label =
+      element.getAttribute("aria-label") ||
+      (element as HTMLInputElement).labels?.[0]?.textContent?.trim() ||
+      element.textContent?.trim().slice(0, 60) ||
+      "";
+    const details = ["name", "placeholder", "data-testid", "href"]
+      .filter((name) => element.hasAttribute(name))
+      .map((name) => `${name}="${element.getAttribute(name)}"`);
+
+    lines.push(
+      [
+        `${role || tag}${type ? `[type=${type}]` : ""}`,
+        label ? JSON.stringify(label) : "",
+        ...details,
+      ]
+        .filter(Boolean)
+        .join(" ")
+    );
+  }
+
+  return lines;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength
+    ? `${text.slice(0, maxLength)}\n... (truncated)`
+    : text;
+}
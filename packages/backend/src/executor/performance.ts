@@ -0,0 +1,152 @@
+import { BrowserContext, Page } from "playwright";
+import { PerformanceMetrics } from "@quality-pilot/shared";
+
+// Observed values of the current document, kept on the page between steps
+interface ObservedMetrics {
+  lcp?: number;
+  cls?: number;
+  inp?: number;
+  tbt?: number;
+}
+
+// Metrics of one document; timeOrigin tells page loads apart
+export interface PageMeasurement {
+  timeOrigin: number;
+  metrics: PerformanceMetrics;
+}
+
+/**
+ * Observe LCP, layout shifts, long tasks and interactions in every page the
+ * context opens. Entry types the browser does not support are skipped, so
+ * their metrics stay unset rather than reading as 0.
+ */
+export async function installPerformanceObservers(
+  context: BrowserContext
+): Promise<void> {
+  await context.addInitScript(() => {
+    if (window !== window.top) return;
+    const supported = PerformanceObserver.supportedEntryTypes ?? [];
+    // Pages without shifts or long tasks score 0 where they can be observed
+    const state: ObservedMetrics = {
+      cls: supported.includes("layout-shift") ? 0 : undefined,
+      tbt: supported.includes("longtask") ? 0 : undefined,
+    };
+    (
+      globalThis as { __qualityPilotPerf?: ObservedMetrics }
+    ).__qualityPilotPerf = state;
+    // Without this, resources past the 250th are not counted
+    performance.setResourceTimingBufferSize?.(10_000);
+
+    const observe = (
+      type: string,
+      onEntry: (entry: PerformanceEntry) => void,
+      options: Record<string, unknown> = {}
+    ) => {
+      if (!supported.includes(type)) return;
+      new PerformanceObserver((list) =>
+        list.getEntries().forEach(onEntry)
+      ).observe({
+        type,
+        buffered: true,
+        ...options,
+      } as PerformanceObserverInit);
+    };
+
+    observe("largest-contentful-paint", (entry) => {
+      state.lcp = entry.startTime;
+    });
+    observe("layout-shift", (entry) => {
+      const shift = entry as PerformanceEntry & {
+        value: number;
+        hadRecentInput: boolean;
+      };
+      if (!shift.hadRecentInput) state.cls = (state.cls ?? 0) + shift.value;
+    });
+    observe("longtask", (entry) => {
+      state.tbt = (state.tbt ?? 0) + Math.max(0, entry.duration - 50);
+    });
+    observe(
+      "event",
+      (entry) => {
+        const event = entry as PerformanceEntry & { interactionId?: number };
+        if (!event.interactionId) return;
+        state.inp = Math.max(state.inp ?? 0, entry.duration);
+      },
+      { durationThreshold: 16 }
+    );
+  });
+}
+
+/**
+ * Metrics of the page's current document, or null when it is not a loaded
+ * web page (about:blank, a navigation still in progress)
+ */
+export async function collectPerformance(
+  page: Page
+): Promise<PageMeasurement | null> {
+  if (!/^https?:/.test(page.url())) return null;
+  const measurement = await page.evaluate(() => {
+    const navigation = performance.getEntriesByType("navigation")[0] as
+      PerformanceNavigationTiming | undefined;
+    if (!navigation) return null;
+    const fcp = performance.getEntriesByName("first-contentful-paint")[0];
+    const resources = performance.getEntriesByType(
+      "resource"
+    ) as PerformanceResourceTiming[];
+    const observed =
+      (globalThis as { __qualityPilotPerf?: ObservedMetrics })
+        .__qualityPilotPerf ?? {};
+    const positive = (value: number) => (value > 0 ? value : undefined);
+
+    return {
+      timeOrigin: performance.timeOrigin,
+      metrics: {
+        url: location.href,
+        ttfb: positive(navigation.responseStart),
+        domContentLoaded: positive(navigation.domContentLoadedEventEnd),
+        load: positive(navigation.loadEventEnd),
+        fcp: fcp?.startTime,
+        ...observed,
+        requests: 1 + resources.length,
+        transferBytes: resources.reduce(
+          (total, resource) => total + (resource.transferSize ?? 0),
+          navigation.transferSize ?? 0
+        ),
+      },
+    };
+  });
+  if (!measurement) return null;
+
+  const { metrics } = measurement;
+  for (const name of [
+    "ttfb",
+    "domContentLoaded",
+    "load",
+    "fcp",
+    "lcp",
+    "inp",
+    "tbt",
+  ] as const) {
+    if (metrics[name] !== undefined) metrics[name] = Math.round(metrics[name]);
+  }
+  if (metrics.cls !== undefined) {
+    metrics.cls = Math.round(metrics.cls * 10_000) / 10_000;
+  }
+  return measurement;
+}
+
+/**
+ * One line summary of a page load for logs
+ */
+export function describePerformance(metrics: PerformanceMetrics): string {
+  const parts = [
+    metrics.ttfb !== undefined && `TTFB ${metrics.ttfb}ms`,
+    metrics.fcp !== undefined && `FCP ${metrics.fcp}ms`,
+    metrics.lcp !== undefined && `LCP ${metrics.lcp}ms`,
+    metrics.load !== undefined && `load ${metrics.load}ms`,
+    metrics.cls !== undefined && `CLS ${metrics.cls}`,
+    `${metrics.requests} requests`,
+    `${Math.round(metrics.transferBytes / 1024)} KB`,
+  ];
+  return parts.filter(Boolean).join(" · ");
+}
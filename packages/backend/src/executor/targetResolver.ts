@@ -0,0 +1,293 @@
+import { Locator, Page } from "playwright";
+import {
+  TargetCandidate,
+  TargetResolution,
+  TargetStrategy,
+  TestAction,
+} from "@quality-pilot/shared";
+
+type AriaRole = Parameters<Page["getByRole"]>[0];
+
+interface CandidateLocator {
+  strategy: TargetStrategy;
+  selector: string;
+  locator: Locator;
+}
+
+/**
+ * Thrown when no strategy finds a visible element for a step target
+ */
+export class TargetNotFoundError extends Error {
+  constructor(
+    public readonly target: string,
+    public readonly candidates: TargetCandidate[]
+  ) {
+    super(
+      candidates.length > 0
+        ? `No visible element found for target "${target}" (${candidates.length} hidden candidates)`
+        : `No element found for target "${target}"`
+    );
+    this.name = "TargetNotFoundError";
+  }
+}
+
+// Roles of elements whose content or state steps read
+const READ_ROLES: AriaRole[] = [
+  "heading",
+  "button",
+  "link",
+  "textbox",
+  "checkbox",
+  "alert",
+  "status",
+];
+
+// ARIA roles worth considering for each action, most likely first
+const ACTION_ROLES: Partial<Record<TestAction, AriaRole[]>> = {
+  click: [
+    "button",
+    "link",
+    "menuitem",
+    "tab",
+    "checkbox",
+    "radio",
+    "switch",
+    "option",
+  ],
+  fill: ["textbox", "searchbox", "combobox", "spinbutton"],
+  select: ["combobox", "listbox"],
+  hover: ["button", "link", "menuitem", "tab", "img"],
+  assert: READ_ROLES,
+  extract: READ_ROLES,
+};
+
+// Strategies that cannot produce an element the action can operate on
+const SKIPPED_STRATEGIES: Partial<Record<TestAction, TargetStrategy[]>> = {
+  fill: ["text"],
+  select: ["text", "placeholder"],
+};
+
+// Words the AI appends to describe the element kind ("email input", "Login button")
+const NOISE_WORDS =
+  /\s+(button|btn|link|input|field|textbox|text box|box|dropdown|select|menu|tab|checkbox|radio|icon|area)$/i;
+
+// Delays between resolution attempts while waiting for a target
+const POLL_INTERVALS = [100, 250, 500, 1000];
+
+// Input types implied by common target words, used as a last resort for fill
+const TYPE_HINTS: Array<[RegExp, string]> = [
+  [/e-?mail/i, 'input[type="email"]'],
+  [/password/i, 'input[type="password"]'],
+  [/search/i, 'input[type="search"]'],
+  [/phone|tel/i, 'input[type="tel"]'],
+  [/url|website/i, 'input[type="url"]'],
+  [/number|quantity|amount/i, 'input[type="number"]'],
+];
+
+/**
+ * Resolve a human-readable step target to a single element.
+ *
+ * Candidates are ranked by ARIA role and accessible name, label, placeholder,
+ * name/id attribute, test id, visible text and finally the raw target as a
+ * selector. The first candidate with a visible match wins; all candidates
+ * that matched anything are reported so failures can be diagnosed.
+ */
+export async function resolveTarget(
+  page: Page,
+  target: string,
+  action: TestAction
+): Promise<{ locator: Locator; resolution: TargetResolution }> {
+  const candidates: TargetCandidate[] = [];
+  let chosen: { locator: Locator; candidate: TargetCandidate } | null = null;
+
+  for (const entry of buildCandidates(page, target, action)) {
+    let count: number;
+    let visible: number;
+    try {
+      count = await entry.locator.count();
+      visible =
+        count > 0 ? await entry.locator.filter({ visible: true }).count() : 0;
+    } catch {
+      // Not a valid selector for this strategy (e.g. free text as CSS)
+      continue;
+    }
+
+    if (count === 0) continue;
+
+    const candidate: TargetCandidate = {
+      strategy: entry.strategy,
+      selector: entry.selector,
+      count,
+      visible,
+    };
+    candidates.push(candidate);
+
+    if (!chosen && visible > 0) {
+      chosen = {
+        locator: entry.locator.filter({ visible: true }).first(),
+        candidate,
+      };
+    }
+  }
+
+  if (!chosen) {
+    throw new TargetNotFoundError(target, candidates);
+  }
+
+  return {
+    locator: chosen.locator,
+    resolution: {
+      target,
+      strategy: chosen.candidate.strategy,
+      selector: chosen.candidate.selector,
+      candidates,
+    },
+  };
+}
+
+/**
+ * resolveTarget, retried until an element is visible or `timeout` ms have
+ * passed, so steps wait for content that renders late instead of sleeping
+ */
+export async function waitForTarget(
+  page: Page,
+  target: string,
+  action: TestAction,
+  timeout: number
+): Promise<{ locator: Locator; resolution: TargetResolution }> {
+  const deadline = Date.now() + timeout;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await resolveTarget(page, target, action);
+    } catch (error: unknown) {
+      const delay =
+        POLL_INTERVALS[Math.min(attempt, POLL_INTERVALS.length - 1)];
+      if (
+        !(error instanceof TargetNotFoundError) ||
+        Date.now() + delay > deadline
+      ) {
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Build candidate locators in rank order
+ */
+function buildCandidates(
+  page: Page,
+  target: string,
+  action: TestAction
+): CandidateLocator[] {
+  const raw = target.trim().replace(/^["'`](.*)["'`]$/, "$1");
+  const name = raw.replace(NOISE_WORDS, "").trim() || raw;
+  const variants = identifierVariants(name);
+  const skipped = SKIPPED_STRATEGIES[action] ?? [];
+  const candidates: CandidateLocator[] = [];
+
+  const add = (
+    strategy: TargetStrategy,
+    selector: string,
+    locator: Locator
+  ) => {
+    if (skipped.includes(strategy)) return;
+    if (candidates.some((c) => c.selector === selector)) return;
+    candidates.push({ strategy, selector, locator });
+  };
+
+  // Explicit selectors are trusted over any guessing
+  if (looksLikeSelector(raw)) {
+    add("selector", raw, page.locator(raw));
+  }
+
+  for (const exact of [true, false]) {
+    for (const role of ACTION_ROLES[action] ?? []) {
+      add(
+        "role",
+        `role=${role}[name="${name}"${exact ? "" : " i"}]`,
+        page.getByRole(role, { name, exact })
+      );
+    }
+    add(
+      "label",
+      `label=${JSON.stringify(name)}${exact ? "" : " i"}`,
+      page.getByLabel(name, { exact })
+    );
+  }
+
+  // A bare role word ("heading", "alert") means any element with that role
+  const bareRole = (ACTION_ROLES[action] ?? []).find(
+    (role) => role === raw.toLowerCase()
+  );
+  if (bareRole) add("role", `role=${bareRole}`, page.getByRole(bareRole));
+
+  add(
+    "placeholder",
+    `placeholder=${JSON.stringify(name)} i`,
+    page.getByPlaceholder(name)
+  );
+
+  for (const variant of variants) {
+    const value = cssString(variant);
+    add("name", `[name=${value} i]`, page.locator(`[name=${value} i]`));
+    add("id", `[id=${value}]`, page.locator(`[id=${value}]`));
+  }
+
+  for (const variant of variants) {
+    const value = cssString(variant);
+    const selector = `[data-testid=${value}], [data-test=${value}], [data-qa=${value}], [data-cy=${value}]`;
+    add("testid", selector, page.locator(selector));
+  }
+
+  add(
+    "text",
+    `text=${JSON.stringify(name)}`,
+    page.getByText(name, { exact: true })
+  );
+  add("text", `text=${JSON.stringify(name)} i`, page.getByText(name));
+
+  if (!looksLikeSelector(raw)) {
+    add("selector", raw, page.locator(raw));
+  }
+
+  if (action === "fill") {
+    for (const [pattern, selector] of TYPE_HINTS) {
+      if (pattern.test(raw)) add("type", selector, page.locator(selector));
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Spellings a field name commonly takes in name/id/test-id attributes
+ */
+function identifierVariants(name: string): string[] {
+  const words = name
+    .toLowerCase()
+    .split(/[\s_-]+/)
+    .filter(Boolean);
+  if (words.length === 0) return [];
+  const camel = words
+    .map((w, i) => (i === 0 ? w : w[0].toUpperCase() + w.slice(1)))
+    .join("");
+  return [
+    ...new Set([name, words.join("_"), words.join("-"), camel, words.join("")]),
+  ];
+}
+
+function looksLikeSelector(target: string): boolean {
+  return (
+    /^[#.[/]/.test(target) ||
+    /^(css|xpath|text|role|id|data-testid)=/.test(target) ||
+    /^[a-z]+[.#[:]/i.test(target) ||
+    /\s>\s/.test(target)
+  );
+}
+
+function cssString(value: string): string {
+  return JSON.stringify(value);
+}
@@ -0,0 +1,46 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createTemplateContext,
+  interpolate,
+  redactSecretValues,
+  templateVariableNames,
+} from "./templates.js";
+
+afterEach(() => {
+  delete process.env.TEMPLATE_ENV_PREFIX;
+  delete process.env.TEST_API_TOKEN;
+});
+
+describe("env placeholders", () => {
+  it("exposes no environment variables while TEMPLATE_ENV_PREFIX is unset", () => {
+    process.env.TEST_API_TOKEN = "tok-123456";
+    const context = createTemplateContext({});
+
+    assert.deepEqual(templateVariableNames(), []);
+    assert.throws(
+      () => interpolate("{{env.TEST_API_TOKEN}}", context),
+      /set TEMPLATE_ENV_PREFIX/
+    );
+  });
+});
+
+describe("redactSecretValues", () => {
+  it("replaces env values and secret variables, keeping test data", () => {
+    process.env.TEMPLATE_ENV_PREFIX = "TEST_";
+    process.env.TEST_API_TOKEN = "tok-123456";
+    const context = createTemplateContext({ testData: { name: "Alice" } });
+    context.variables.set("orderId", { value: "ORD-991", secret: true });
+    context.variables.set("total", { value: "42.50", secret: false });
+
+    const text = interpolate(
+      "{{env.TEST_API_TOKEN}} {{testData.name}} {{orderId}} {{total}}",
+      context
+    );
+
+    assert.equal(
+      redactSecretValues(text, context),
+      "{{env.TEST_API_TOKEN}} Alice {{orderId}} 42.50"
+    );
+  });
+});
@@ -0,0 +1,321 @@
+import { Faker, LocaleDefinition, allLocales, base, en } from "@faker-js/faker";
+import { StructuredStep } from "@quality-pilot/shared";
+import { RunVariable, RunVariables } from "./variables.js";
+
+/**
+ * Everything a {{placeholder}} can resolve to during one run
+ */
+export interface TemplateContext {
+  testData: Record<string, unknown>;
+  // Values captured by extract steps
+  variables: RunVariables;
+  faker: Faker;
+  seed: number;
+  startedAt: number;
+  // Values already produced per expression, so repeats within a run agree
+  resolved: Map<string, RunVariable>;
+}
+
+type Generator = (faker: Faker, args: string[], startedAt: number) => string;
+
+const PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const GENERATOR_EXPRESSION = /^gen\.(\w+)(?:\((.*)\))?(?:#(\w+))?$/;
+const DEFAULT_EMAIL_DOMAIN = "example.com";
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Shorter values (a generated "7") are too likely to appear by chance
+const MIN_REDACTED_LENGTH = 3;
+
+const GENERATORS: Record<string, Generator> = {
+  // Unique per run unless the seed is fixed
+  email: (faker, [domain]) =>
+    `${faker.internet
+      .username({
+        firstName: faker.person.firstName(),
+        lastName: faker.person.lastName(),
+      })
+      .toLowerCase()}.${faker.string.alphanumeric({
+      length: 6,
+      casing: "lower",
+    })}@${domain || DEFAULT_EMAIL_DOMAIN}`,
+  firstName: (faker) => faker.person.firstName(),
+  lastName: (faker) => faker.person.lastName(),
+  fullName: (faker) => faker.person.fullName(),
+  phone: (faker) => faker.phone.number(),
+  company: (faker) => faker.company.name(),
+  street: (faker) => faker.location.streetAddress(),
+  city: (faker) => faker.location.city(),
+  postalCode: (faker) => faker.location.zipCode(),
+  country: (faker) => faker.location.country(),
+  address: (faker) =>
+    `${faker.location.streetAddress()}, ${faker.location.zipCode()} ${faker.location.city()}`,
+  uuid: (faker) => faker.string.uuid(),
+  string: (faker, [length]) =>
+    faker.string.alphanumeric(toInteger(length, 8, "string length")),
+  number: (faker, [min, max]) =>
+    String(
+      faker.number.int({
+        min: toInteger(min, 0, "number min"),
+        max: toInteger(max, 9999, "number max"),
+      })
+    ),
+  // Milliseconds since the epoch when the run started
+  timestamp: (_faker, _args, startedAt) => String(startedAt),
+  // YYYY-MM-DD, optionally offset from the run's start by whole days
+  date: (_faker, [offset], startedAt) =>
+    new Date(startedAt + toInteger(offset, 0, "date offset") * DAY_MS)
+      .toISOString()
+      .slice(0, 10),
+};
+
+// Shown to the model; arguments in parentheses are optional
+export const GENERATOR_SIGNATURES = [
+  "gen.email(domain)",
+  "gen.firstName",
+  "gen.lastName",
+  "gen.fullName",
+  "gen.phone",
+  "gen.company",
+  "gen.street",
+  "gen.city",
+  "gen.postalCode",
+  "gen.country",
+  "gen.address",
+  "gen.uuid",
+  "gen.string(length)",
+  "gen.number(min, max)",
+  "gen.timestamp",
+  "gen.date(offsetDays)",
+];
+
+/**
+ * Start a run's template context. Without a seed a random one is chosen;
+ * it is kept on the context so the run's generated data can be reproduced.
+ */
+export function createTemplateContext(options: {
+  testData?: Record<string, unknown>;
+  seed?: number;
+  locale?: string;
+}): TemplateContext {
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const faker = new Faker({
+    locale: [...fakerLocales(options.locale), en, base],
+  });
+  faker.seed(seed);
+
+  return {
+    testData: options.testData ?? {},
+    variables: new Map(),
+    faker,
+    seed,
+    startedAt: Date.now(),
+    resolved: new Map(),
+  };
+}
+
+/**
+ * Placeholder names the model may use for this run's data. Only names are
+ * listed; values stay out of prompts.
+ */
+export function templateVariableNames(
+  testData: Record<string, unknown> = {}
+): string[] {
+  const prefix = envPrefix();
+  const env = prefix
+    ? Object.keys(process.env)
+        .filter((name) => name.startsWith(prefix))
+        .map((name) => `env.${name}`)
+    : [];
+  return [...flattenKeys(testData, "testData"), ...env.sort()];
+}
+
+/**
+ * Replace {{placeholders}} with their values. Throws for unknown testData,
+ * env or generator references; other unknown names are left as they are
+ * (they may be credentials or variables a later step extracts).
+ */
+export function interpolate(text: string, context: TemplateContext): string {
+  return text.replace(
+    PLACEHOLDER,
+    (placeholder, expression: string) =>
+      resolvePlaceholder(expression, context)?.value ?? placeholder
+  );
+}
+
+/**
+ * The step with placeholders substituted into target, value and assertion
+ * expected
+ */
+export function interpolateStep(
+  step: StructuredStep,
+  context: TemplateContext
+): StructuredStep {
+  const { assertion } = step;
+  return {
+    ...step,
+    target: step.target && interpolate(step.target, context),
+    value: step.value && interpolate(step.value, context),
+    assertion: assertion && {
+      ...assertion,
+      expected:
+        typeof assertion.expected === "string"
+          ? interpolate(assertion.expected, context)
+          : assertion.expected,
+    },
+  };
+}
+
+/**
+ * Put placeholders back in place of values resolved so far, so text sent
+ * to the AI names the data instead of containing it
+ */
+export function redactTemplateValues(
+  text: string,
+  context: TemplateContext
+): string {
+  return redactValues(text, [
+    ...context.resolved,
+    ...[...context.variables].filter(([, variable]) => variable.secret),
+  ]);
+}
+
+/**
+ * Put placeholders back in place of secret values ({{env.*}} and secret
+ * extracted variables) only, for text shown in events and stored records
+ */
+export function redactSecretValues(
+  text: string,
+  context: TemplateContext
+): string {
+  return redactValues(
+    text,
+    [...context.resolved, ...context.variables].filter(
+      ([, variable]) => variable.secret
+    )
+  );
+}
+
+function redactValues(
+  text: string,
+  variables: Array<[string, RunVariable]>
+): string {
+  const entries = variables
+    .filter(([, variable]) => variable.value.length >= MIN_REDACTED_LENGTH)
+    // Longest first, so a value containing another is replaced whole
+    .sort(([, a], [, b]) => b.value.length - a.value.length);
+
+  return entries.reduce(
+    (redacted, [expression, { value }]) =>
+      redacted.split(value).join(`{{${expression}}}`),
+    text
+  );
+}
+
+function resolvePlaceholder(
+  expression: string,
+  context: TemplateContext
+): RunVariable | undefined {
+  const known = context.resolved.get(expression);
+  if (known) return known;
+
+  let resolved: RunVariable;
+  if (expression.startsWith("testData.")) {
+    resolved = { value: readTestData(context, expression), secret: false };
+  } else if (expression.startsWith("env.")) {
+    resolved = { value: readEnv(expression.slice(4)), secret: true };
+  } else if (expression.startsWith("gen.")) {
+    resolved = { value: generate(expression, context), secret: false };
+  } else {
+    return context.variables.get(expression);
+  }
+
+  context.resolved.set(expression, resolved);
+  return resolved;
+}
+
+function readTestData(context: TemplateContext, expression: string): string {
+  let value: unknown = context.testData;
+  for (const key of expression.split(".").slice(1)) {
+    value =
+      typeof value === "object" && value !== null
+        ? (value as Record<string, unknown>)[key]
+        : undefined;
+  }
+
+  if (value === undefined || value === null) {
+    throw new Error(`No test data for {{${expression}}}`);
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function readEnv(name: string): string {
+  const prefix = envPrefix();
+  if (!prefix || !name.startsWith(prefix)) {
+    throw new Error(
+      prefix
+        ? `{{env.${name}}} is not allowed; only variables starting with ${prefix} are exposed to tests`
+        : `{{env.${name}}} is not allowed; set TEMPLATE_ENV_PREFIX to expose environment variables to tests`
+    );
+  }
+
+  const value = process.env[name];
+  if (value === undefined) {
+    throw new Error(`Environment variable ${name} is not set`);
+  }
+  return value;
+}
+
+function generate(expression: string, context: TemplateContext): string {
+  const match = GENERATOR_EXPRESSION.exec(expression);
+  const generator = match && GENERATORS[match[1]];
+  if (!generator) {
+    throw new Error(
+      `Unknown generator {{${expression}}}; available: ${GENERATOR_SIGNATURES.join(", ")}`
+    );
+  }
+
+  const args = (match[2] ?? "")
+    .split(",")
+    .map((arg) => arg.trim())
+    .filter(Boolean);
+  return generator(context.faker, args, context.startedAt);
+}
+
+function toInteger(
+  arg: string | undefined,
+  fallback: number,
+  label: string
+): number {
+  if (arg === undefined) return fallback;
+  const value = Number(arg);
+  if (!Number.isInteger(value)) {
+    throw new Error(`Invalid ${label} "${arg}": expected a whole number`);
+  }
+  return value;
+}
+
+/**
+ * Faker locale data for a BCP 47 tag ("de-AT"), most specific first
+ */
+function fakerLocales(locale?: string): LocaleDefinition[] {
+  if (!locale) return [];
+  const locales = allLocales as Record<string, LocaleDefinition>;
+  const [language, region] = locale.split(/[-_]/);
+  return [
+    region && locales[`${language.toLowerCase()}_${region.toUpperCase()}`],
+    locales[language.toLowerCase()],
+  ].filter((entry): entry is LocaleDefinition => Boolean(entry));
+}
+
+function flattenKeys(value: Record<string, unknown>, prefix: string): string[] {
+  return Object.entries(value).flatMap(([key, child]) =>
+    typeof child === "object" && child !== null && !Array.isArray(child)
+      ? flattenKeys(child as Record<string, unknown>, `${prefix}.${key}`)
+      : [`${prefix}.${key}`]
+  );
+}
+
+// Only environment variables with this prefix can be read by {{env.X}};
+// none can while it is unset
+function envPrefix(): string {
+  return process.env.TEMPLATE_ENV_PREFIX ?? "";
+}
@@ -1,3 +1,5 @@
+import fs from "fs/promises";
+import path from "path";
 import {
   chromium,
   firefox,
@@ -5,63 +7,241 @@ import {
   Browser,
   Page,
   BrowserContext,
+  Locator,
+  Video,
+  errors,
 } from "playwright";
 import {
-  generateTestSteps,
+  diagnoseFailure,
+  generateNextStep,
   injectCredentials,
-  StructuredStep,
+  redactCredentials,
+  suggestLocator,
 } from "../ai/geminiAgent.js";
-import { TestPrompt, TestStep, WSMessageType } from "@quality-pilot/shared";
+import { getPlan } from "../ai/planCache.js";
+import { AICallOptions } from "../ai/usage.js";
+import {
+  BrowserErrorPolicy,
+  BrowserLogEntry,
+  BrowserName,
+  FailurePolicy,
+  HealAttempt,
+  PerformanceRun,
+  RunEnvironment,
+  StepFailure,
+  StepRetry,
+  StructuredStep,
+  TargetCandidate,
+  TestExecution,
+  TestPrompt,
+  TestStep,
+  WSMessageType,
+} from "@quality-pilot/shared";
+import { TargetNotFoundError, waitForTarget } from "./targetResolver.js";
+import { capturePageSnapshot } from "./pageSnapshot.js";
+import {
+  AssertionContext,
+  AssertionResult,
+  evaluateAssertion,
+} from "./assertions.js";
+import { captureViolation, describeViolations, runAudit } from "./a11y.js";
+import { recordVisual, VisualCheck, VisualContext } from "./visual.js";
+import {
+  collectPerformance,
+  describePerformance,
+  installPerformanceObservers,
+  PageMeasurement,
+} from "./performance.js";
+import { testKey } from "../store/executionStore.js";
+import { recordPerformanceRun } from "../store/performanceStore.js";
+import { describeExtracted, extractValue } from "./variables.js";
+import {
+  createTemplateContext,
+  interpolateStep,
+  redactSecretValues,
+  redactTemplateValues,
+  TemplateContext,
+  templateVariableNames,
+} from "./templates.js";
+import { buildContextOptions, describeEnvironment } from "./browserContext.js";
+import {
+  addMock,
+  blockHosts,
+  networkLogEntries,
+  NetworkLog,
+  parseHosts,
+  recordNetwork,
+} from "./network.js";
+import {
+  errorPolicy,
+  isFailingError,
+  recordBrowserLogs,
+  storedBrowserLogs,
+} from "./browserLogs.js";
+import { scratchDir } from "../artifacts/paths.js";
+import { saveArtifact, saveArtifactFile } from "../artifacts/recorder.js";
 
 type ExecutionCallback = (message: {
   type: WSMessageType;
   data: unknown;
 }) => void;
 
+// State shared by every step of one run
+interface StepRunner {
+  page: Page;
+  callback: ExecutionCallback;
+  execution: TestExecution;
+  ai: AICallOptions;
+  credentials?: Record<string, string>;
+  selfHealing: boolean;
+  analyzeFailures: boolean;
+  failurePolicy: FailurePolicy;
+  timeouts: StepTimeouts;
+  retries: number;
+  retryBackoffMs: number;
+  templates: TemplateContext;
+  network: NetworkLog;
+  visual: VisualContext;
+  // Placeholder names the AI may reference, e.g. testData.email
+  variableNames: string[];
+  // Step definitions in execution order, for failure analysis
+  history: StructuredStep[];
+  browserLogs: BrowserLogEntry[];
+  // null unless options.failOnError is set
+  errorPolicy: BrowserErrorPolicy | null;
+  // Entries before this index have been checked against errorPolicy
+  checkedLogs: number;
+  // The current page load, whose metrics later steps keep updating
+  pageLoad: PageMeasurement | null;
+}
+
+// Timeouts in ms for one step's actions, navigations and assertions
+interface StepTimeouts {
+  action: number;
+  navigation: number;
+  assertion: number;
+}
+
+const DEFAULT_AGENT_MAX_STEPS = 25;
+const DEFAULT_ACTION_TIMEOUT_MS = 10_000;
+const DEFAULT_NAVIGATION_TIMEOUT_MS = 30_000;
+// Assertions are polled until they pass, for at most this long
+const DEFAULT_ASSERTION_TIMEOUT_MS = 5_000;
+const ASSERTION_POLL_INTERVAL_MS = 250;
+const DEFAULT_RETRY_BACKOFF_MS = 1_000;
+
+const LOG_LEVEL_ICONS: Record<BrowserLogEntry["level"], string> = {
+  debug: "🐞",
+  info: "💬",
+  warning: "⚠️",
+  error: "🛑",
+};
+
+// Actions whose failure can be caused by a stale or wrong target
+const HEALABLE_ACTIONS = new Set(["click", "fill", "select", "hover"]);
+
 /**
- * Main test execution function
+ * Main test execution function. Steps, healing and the plan version used
+ * are recorded on `execution` as the run progresses.
  */
 export async function executeTest(
-  testId: string,
+  execution: TestExecution,
   testPrompt: TestPrompt,
   callback: ExecutionCallback
 ): Promise<void> {
+  const testId = execution.id;
   let browser: Browser | null = null;
   let context: BrowserContext | null = null;
   let page: Page | null = null;
+  let network: NetworkLog | null = null;
+  const browserLogs: BrowserLogEntry[] = [];
+  // An explicit step list is always executed as-is
+  const mode = testPrompt.steps ? "plan" : testPrompt.options?.mode || "plan";
+  const traceMode = testPrompt.options?.trace || "retain-on-failure";
+  let failed = false;
+  // Every AI call in this run is billed to the run and its caller
+  const ai: AICallOptions = {
+    ...testPrompt.options?.ai,
+    testId,
+    caller: execution.caller,
+    runBudgetUsd: testPrompt.options?.aiBudgetUsd,
+  };
+  const templates = createTemplateContext({
+    testData: testPrompt.testData,
+    seed: testPrompt.options?.seed,
+    locale: testPrompt.options?.locale,
+  });
+  const variableNames = templateVariableNames(testPrompt.testData);
+  execution.seed = templates.seed;
+  execution.testKey = testKey(testPrompt.prompt, testPrompt.url);
 
   try {
-    // Step 1: Generate test steps from AI
-    callback({
-      type: "log",
-      data: { message: "🤖 Generating test steps from AI..." },
-    });
+    // Step 1: Generate test steps from AI (agent mode plans as it goes)
+    let steps: StructuredStep[] = [];
+    if (testPrompt.steps) {
+      steps = testPrompt.steps;
+      callback({
+        type: "log",
+        data: { message: `📋 Using ${steps.length} provided test steps` },
+      });
+    } else if (mode === "plan") {
+      const regenerate = testPrompt.options?.regeneratePlan === true;
+      callback({
+        type: "log",
+        data: {
+          message: regenerate
+            ? "🤖 Regenerating test steps from AI..."
+            : "🤖 Loading test plan...",
+        },
+      });
 
-    let steps = await generateTestSteps(
-      testPrompt.prompt,
-      testPrompt.url,
-      testPrompt.credentials
-    );
+      const { plan, cached } = await getPlan(
+        testPrompt.prompt,
+        testPrompt.url,
+        ai,
+        regenerate,
+        variableNames
+      );
+      steps = plan.steps;
+      execution.plan = { hash: plan.hash, version: plan.version };
+
+      callback({
+        type: "log",
+        data: {
+          message: cached
+            ? `📌 Reusing pinned plan v${plan.version}`
+            : `🤖 Generated plan v${plan.version}`,
+          plan: execution.plan,
+        },
+      });
+    }
 
-    // Inject credentials into steps
-    steps = injectCredentials(steps, testPrompt.credentials);
+    if (mode === "plan") {
+      callback({
+        type: "log",
+        data: {
+          message: `✅ Prepared ${steps.length} test steps`,
+          steps: steps.map((s, i) => ({
+            ...s,
+            id: `step_${i}`,
+            status: "pending",
+          })),
+        },
+      });
+    }
+
+    // Step 2: Launch browser (in Docker container for isolation)
+    const browserType = testPrompt.options?.browser || "chromium";
+    const headless = testPrompt.options?.headless !== false;
 
     callback({
       type: "log",
       data: {
-        message: `✅ Generated ${steps.length} test steps`,
-        steps: steps.map((s, i) => ({
-          ...s,
-          id: `step_${i}`,
-          status: "pending",
-        })),
+        message: `🎲 Test data seed ${templates.seed}`,
+        seed: templates.seed,
       },
     });
 
-    // Step 2: Launch browser (in Docker container for isolation)
-    const browserType = testPrompt.options?.browser || "chromium";
-    const headless = testPrompt.options?.headless !== false;
-
     callback({
       type: "log",
       data: { message: `🌐 Launching ${browserType} browser...` },
@@ -74,83 +254,146 @@ export async function executeTest(
       args: ["--no-sandbox", "--disable-setuid-sandbox"],
     });
 
+    const contextOptions = buildContextOptions(testPrompt.options, browserType);
     context = await browser.newContext({
-      viewport: testPrompt.options?.viewport || { width: 1280, height: 720 },
+      ...contextOptions,
+      baseURL: testPrompt.url,
       recordVideo: {
-        dir: `./videos/${testId}/`,
+        dir: scratchDir(testId),
       },
     });
 
-    page = await context.newPage();
-
-    // Step 3: Execute each step
-    for (let i = 0; i < steps.length; i++) {
-      const stepDef = steps[i];
-      const stepId = `step_${i}`;
-
-      const testStep: TestStep = {
-        id: stepId,
-        action: stepDef.action,
-        target: stepDef.target,
-        value: stepDef.value,
-        assertion: stepDef.assertion,
-        timestamp: Date.now(),
-        status: "running",
-      };
-
-      callback({
-        type: "step_started",
-        data: { step: testStep },
+    if (traceMode !== "off") {
+      await context.tracing.start({
+        screenshots: true,
+        snapshots: true,
+        sources: true,
       });
+    }
 
-      try {
-        // Execute the step
-        await executeStep(page, stepDef, testStep);
-
-        testStep.status = "completed";
+    const timeouts: StepTimeouts = {
+      action: testPrompt.options?.timeout || DEFAULT_ACTION_TIMEOUT_MS,
+      navigation:
+        testPrompt.options?.navigationTimeout || DEFAULT_NAVIGATION_TIMEOUT_MS,
+      assertion:
+        testPrompt.options?.assertionTimeout ||
+        Math.min(
+          testPrompt.options?.timeout || DEFAULT_ASSERTION_TIMEOUT_MS,
+          DEFAULT_ASSERTION_TIMEOUT_MS
+        ),
+    };
+    context.setDefaultTimeout(timeouts.action);
+    context.setDefaultNavigationTimeout(timeouts.navigation);
+    await installPerformanceObservers(context);
 
-        // Take screenshot after step
-        const screenshot = await page.screenshot({ type: "png" });
-        const screenshotBase64 = screenshot.toString("base64");
+    page = await context.newPage();
+    network = recordNetwork(
+      page,
+      () => execution.steps[execution.steps.length - 1]?.id
+    );
 
-        callback({
-          type: "screenshot",
-          data: { stepId, screenshot: screenshotBase64 },
-        });
+    execution.environment = await describeEnvironment(
+      browser,
+      page,
+      browserType,
+      testPrompt.options,
+      contextOptions
+    );
+    callback({
+      type: "log",
+      data: {
+        message: `🧭 ${describeContext(execution.environment)}`,
+        environment: execution.environment,
+      },
+    });
 
-        callback({
-          type: "step_completed",
-          data: { step: testStep },
-        });
-      } catch (error: unknown) {
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-        testStep.status = "failed";
-        testStep.error = errorMessage;
+    const run: StepRunner = {
+      page,
+      callback,
+      execution,
+      ai,
+      credentials: testPrompt.credentials,
+      selfHealing: testPrompt.options?.selfHealing !== false,
+      analyzeFailures: testPrompt.options?.analyzeFailures === true,
+      failurePolicy: testPrompt.options?.onFailure || "stop",
+      timeouts,
+      retries: testPrompt.options?.retries ?? 0,
+      retryBackoffMs:
+        testPrompt.options?.retryBackoffMs ?? DEFAULT_RETRY_BACKOFF_MS,
+      templates,
+      network,
+      visual: {
+        testId,
+        testKey: execution.testKey!,
+        browser: browserType,
+        viewport: execution.environment.viewport,
+      },
+      variableNames,
+      history: [],
+      browserLogs,
+      errorPolicy: errorPolicy(testPrompt.options?.failOnError),
+      checkedLogs: 0,
+      pageLoad: null,
+    };
 
+    recordBrowserLogs(
+      page,
+      network,
+      () => execution.steps[execution.steps.length - 1]?.id,
+      (entry) => {
+        browserLogs.push(entry);
         callback({
-          type: "step_failed",
-          data: { step: testStep, error: errorMessage },
+          type: "log",
+          data: {
+            message: `${LOG_LEVEL_ICONS[entry.level]} ${entry.source}: ${entry.text}`,
+            browserLog: entry,
+          },
         });
+      }
+    );
 
-        // Take screenshot on error
-        const screenshot = await page.screenshot({ type: "png" });
-        const screenshotBase64 = screenshot.toString("base64");
+    // Step 3: Execute each step
+    if (mode === "agent") {
+      await runAgent(run, testPrompt);
+    } else {
+      for (let i = 0; i < steps.length; i++) {
+        await runStep(run, steps[i], i);
+      }
+    }
 
-        callback({
-          type: "screenshot",
-          data: { stepId, screenshot: screenshotBase64 },
-        });
+    // Errors reported after the last step still count against it
+    const lateErrors = takeBrowserErrors(run);
+    const lastStep = execution.steps[execution.steps.length - 1];
+    if (lateErrors.length > 0 && lastStep) {
+      execution.failures = [
+        ...(execution.failures ?? []),
+        {
+          stepId: lastStep.id,
+          action: lastStep.action,
+          description: lastStep.description,
+          error: describeBrowserErrors(lateErrors),
+        },
+      ];
+    }
 
-        throw error; // Stop execution on failure
-      }
+    // Steps that failed without stopping the run still fail it
+    const failures = execution.failures ?? [];
+    if (failures.length > 0) {
+      throw new Error(summarizeFailures(failures, execution.steps.length));
     }
 
+    const healedSteps = execution.healedSteps ?? 0;
     callback({
       type: "log",
-      data: { message: "✅ All test steps completed successfully" },
+      data: {
+        message:
+          healedSteps > 0
+            ? `✅ All test steps completed (${healedSteps} healed)`
+            : "✅ All test steps completed successfully",
+      },
     });
   } catch (error: unknown) {
+    failed = true;
     const errorMessage = error instanceof Error ? error.message : String(error);
     const errorStack = error instanceof Error ? error.stack : undefined;
     callback({
@@ -160,59 +403,767 @@ export async function executeTest(
     throw error;
   } finally {
     // Cleanup
+    if (context && traceMode !== "off") {
+      await saveTrace(context, execution, traceMode === "on" || failed);
+    }
+    if (network) {
+      execution.network = networkLogEntries(network);
+      const dropped = network.requests.length - execution.network.length;
+      if (dropped > 0) {
+        callback({
+          type: "log",
+          data: {
+            message: `🌐 Network log kept the first ${execution.network.length} requests, ${dropped} more not stored`,
+          },
+        });
+      }
+    }
+    if (browserLogs.length > 0) {
+      execution.browserLogs = storedBrowserLogs(browserLogs);
+    }
+    await savePerformanceRun(execution, failed);
+    const video = page?.video();
     if (page) await page.close();
     if (context) await context.close();
     if (browser) await browser.close();
+    // The video file is only complete once the context is closed
+    if (video) await saveVideo(video, execution);
+    await fs.rm(scratchDir(testId), { recursive: true, force: true });
   }
 }
 
+/**
+ * Stop tracing, writing the trace zip only when it should be kept.
+ * Never throws, so a tracing problem cannot mask the run's own result.
+ */
+async function saveTrace(
+  context: BrowserContext,
+  execution: TestExecution,
+  keep: boolean
+) {
+  try {
+    if (keep) {
+      const file = path.join(scratchDir(execution.id), "trace.zip");
+      await context.tracing.stop({ path: file });
+      const artifact = await saveArtifactFile(execution.id, file, {
+        kind: "trace",
+        name: "trace.zip",
+        contentType: "application/zip",
+      });
+      execution.trace = artifact.url;
+    } else {
+      await context.tracing.stop();
+    }
+  } catch (error: unknown) {
+    console.error(`Error saving trace for ${execution.id}:`, error);
+  }
+}
+
+/**
+ * Execute a step, retrying failures up to the step's (or run's) retry count
+ * with exponential backoff. Each retry is recorded on the step and broadcast.
+ */
+async function executeWithRetries(
+  run: StepRunner,
+  stepDef: StructuredStep,
+  testStep: TestStep
+) {
+  const retries = stepDef.retries ?? run.retries;
+  const timeouts = stepTimeouts(run, stepDef);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await executeStep(
+        run.page,
+        stepDef,
+        testStep,
+        timeouts,
+        run.templates,
+        run.network,
+        run.visual
+      );
+      return;
+    } catch (error: unknown) {
+      if (attempt > retries) throw error;
+
+      const retry: StepRetry = {
+        attempt,
+        error: errorText(run, error),
+        delayMs: run.retryBackoffMs * 2 ** (attempt - 1),
+        timestamp: Date.now(),
+      };
+      testStep.retries = [...(testStep.retries ?? []), retry];
+      run.callback({
+        type: "step_retry",
+        data: { stepId: testStep.id, maxAttempts: retries + 1, ...retry },
+      });
+
+      await sleep(retry.delayMs);
+    }
+  }
+}
+
+/**
+ * The run's timeouts with the step's own `timeout` applied to everything
+ */
+function stepTimeouts(run: StepRunner, stepDef: StructuredStep): StepTimeouts {
+  if (!stepDef.timeout) return run.timeouts;
+  return {
+    action: stepDef.timeout,
+    navigation: stepDef.timeout,
+    assertion: stepDef.timeout,
+  };
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Move the finished video recording into artifact storage. Never throws.
+ */
+async function saveVideo(video: Video, execution: TestExecution) {
+  try {
+    const artifact = await saveArtifactFile(execution.id, await video.path(), {
+      kind: "video",
+      name: "video.webm",
+      contentType: "video/webm",
+    });
+    execution.video = artifact.url;
+  } catch (error: unknown) {
+    console.error(`Error saving video for ${execution.id}:`, error);
+  }
+}
+
+/**
+ * Store a screenshot of the current page for a step and announce its URL
+ */
+async function captureScreenshot(run: StepRunner, stepId: string) {
+  const { page, callback, execution } = run;
+  const screenshot = await page.screenshot({ type: "png" });
+  const artifact = await saveArtifact(execution.id, {
+    kind: "screenshot",
+    name: `screenshots/${stepId}.png`,
+    body: screenshot,
+    contentType: "image/png",
+    stepId,
+  });
+  execution.screenshots.push(artifact.url);
+
+  callback({
+    type: "screenshot",
+    data: { stepId, url: artifact.url },
+  });
+}
+
+/**
+ * Record the current page's metrics on the step that loaded it, or update
+ * them when the step stayed on the same page. Never throws; a page that
+ * cannot be measured is skipped.
+ */
+async function measurePerformance(run: StepRunner, testStep: TestStep) {
+  let measurement: PageMeasurement | null;
+  try {
+    measurement = await collectPerformance(run.page);
+  } catch {
+    return;
+  }
+  if (!measurement) return;
+
+  if (measurement.timeOrigin === run.pageLoad?.timeOrigin) {
+    Object.assign(run.pageLoad.metrics, measurement.metrics);
+    return;
+  }
+  run.pageLoad = measurement;
+  testStep.performance = measurement.metrics;
+  run.callback({
+    type: "log",
+    data: {
+      message: `⏱️ ${measurement.metrics.url}: ${describePerformance(
+        measurement.metrics
+      )}`,
+    },
+  });
+}
+
+/**
+ * Add the run's page loads to its test's performance history. Never
+ * throws, so a storage problem cannot mask the run's own result.
+ */
+async function savePerformanceRun(execution: TestExecution, failed: boolean) {
+  const navigations: PerformanceRun["navigations"] = execution.steps.flatMap(
+    (step) =>
+      step.performance ? [{ ...step.performance, stepId: step.id }] : []
+  );
+  if (!execution.testKey || navigations.length === 0) return;
+  try {
+    await recordPerformanceRun(execution.testKey, {
+      testId: execution.id,
+      startTime: execution.startTime,
+      status: failed ? "failed" : "completed",
+      browser: execution.environment?.browser,
+      navigations,
+    });
+  } catch (error: unknown) {
+    console.error(
+      `Error saving performance history for ${execution.id}:`,
+      error
+    );
+  }
+}
+
+/**
+ * Log an accessibility audit and store a crop of each violation's first
+ * element. Never throws; a missing crop only leaves the violation without one.
+ */
+async function reportAudit(run: StepRunner, testStep: TestStep) {
+  const { page, callback, execution } = run;
+  const { violations } = testStep.audit!;
+
+  callback({
+    type: "log",
+    data: {
+      message:
+        violations.length > 0
+          ? `♿ ${violations.length} accessibility violation${
+              violations.length === 1 ? "" : "s"
+            }: ${describeViolations(violations)}`
+          : "♿ No accessibility violations",
+    },
+  });
+
+  for (const violation of violations) {
+    try {
+      const crop = await captureViolation(page, violation);
+      if (!crop) continue;
+      const artifact = await saveArtifact(execution.id, {
+        kind: "screenshot",
+        name: `a11y/${testStep.id}_${violation.id}.png`,
+        body: crop,
+        contentType: "image/png",
+        stepId: testStep.id,
+      });
+      violation.screenshot = artifact.url;
+    } catch (error: unknown) {
+      console.error(`Error saving a11y crop for ${execution.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Observe-act loop: snapshot the page, ask the AI for the next step,
+ * execute it and repeat until the AI reports done or the budget runs out
+ */
+async function runAgent(run: StepRunner, testPrompt: TestPrompt) {
+  const maxSteps = testPrompt.options?.maxSteps || DEFAULT_AGENT_MAX_STEPS;
+  const completed: StructuredStep[] = [];
+
+  // Always start from the application URL so the first snapshot is useful
+  await runStep(
+    run,
+    {
+      action: "navigate",
+      target: testPrompt.url,
+      description: "Open application URL",
+    },
+    0
+  );
+
+  for (let i = 1; i < maxSteps; i++) {
+    const snapshot = await snapshotPage(run);
+    const next = await generateNextStep(
+      testPrompt.prompt,
+      snapshot,
+      completed,
+      run.ai,
+      run.variableNames
+    );
+
+    if (!next) {
+      run.callback({
+        type: "log",
+        data: { message: "🤖 Agent reports the test is complete" },
+      });
+      return;
+    }
+
+    run.callback({
+      type: "log",
+      data: { message: `🤖 Next step: ${next.description}` },
+    });
+
+    await runStep(run, next, i);
+    completed.push(next);
+  }
+
+  throw new Error(`Agent did not finish within ${maxSteps} steps`);
+}
+
+/**
+ * Execute one step with its events, healing and screenshots.
+ * Throws (after reporting) if the step fails.
+ */
+async function runStep(
+  run: StepRunner,
+  stepDef: StructuredStep,
+  index: number
+): Promise<TestStep> {
+  const { callback } = run;
+  const stepId = `step_${index}`;
+
+  const testStep: TestStep = {
+    id: stepId,
+    action: stepDef.action,
+    target: stepDef.target,
+    value: stepDef.value,
+    assertion: stepDef.assertion,
+    description: stepDef.description,
+    timestamp: Date.now(),
+    status: "running",
+  };
+  run.execution.steps.push(testStep);
+  run.history.push(stepDef);
+
+  callback({
+    type: "step_started",
+    data: { step: testStep },
+  });
+
+  try {
+    // Events and the stored record keep the {{credential}} and {{variable}}
+    // placeholders; only execution uses the values
+    const [withCredentials] = injectCredentials([stepDef], run.credentials);
+    const resolvedStep = interpolateStep(withCredentials, run.templates);
+
+    // Execute the step with retries, then heal the target once if it
+    // still cannot be found
+    try {
+      await executeWithRetries(run, resolvedStep, testStep);
+    } catch (error: unknown) {
+      const healed =
+        run.selfHealing && (await healStep(run, resolvedStep, testStep, error));
+      if (!healed) throw error;
+    }
+
+    if (testStep.extracted) {
+      callback({
+        type: "log",
+        data: {
+          message: `📦 Stored {{${testStep.extracted.variable}}} = ${testStep.extracted.value}`,
+        },
+      });
+    }
+
+    // Errors the page reported meanwhile fail the step under failOnError
+    const browserErrors = takeBrowserErrors(run);
+    if (browserErrors.length > 0) {
+      throw new Error(describeBrowserErrors(browserErrors));
+    }
+
+    testStep.status = "completed";
+    redactResolution(run, testStep);
+
+    // Take screenshot after step
+    if (testStep.audit) await reportAudit(run, testStep);
+    await measurePerformance(run, testStep);
+    await captureScreenshot(run, stepId);
+
+    callback({
+      type: "step_completed",
+      data: { step: testStep },
+    });
+
+    return testStep;
+  } catch (error: unknown) {
+    const errorMessage = errorText(run, error);
+    testStep.status = "failed";
+    testStep.error = errorMessage;
+    redactResolution(run, testStep);
+    // Already failed; the next step should not inherit these
+    takeBrowserErrors(run);
+
+    callback({
+      type: "step_failed",
+      data: {
+        step: testStep,
+        error: errorMessage,
+        candidates:
+          error instanceof TargetNotFoundError
+            ? redactCandidates(run, error.candidates)
+            : undefined,
+      },
+    });
+
+    // Take screenshot on error
+    if (testStep.audit) await reportAudit(run, testStep);
+    await measurePerformance(run, testStep);
+    await captureScreenshot(run, stepId);
+
+    run.execution.failures = [
+      ...(run.execution.failures ?? []),
+      {
+        stepId,
+        action: stepDef.action,
+        description: stepDef.description,
+        error: errorMessage,
+        assertion: stepDef.action === "assert" ? testStep.assertion : undefined,
+      },
+    ];
+
+    // Diagnose the first failure only; later ones are usually its fallout
+    if (run.analyzeFailures && !run.execution.diagnosis) {
+      await analyzeFailure(run, stepDef, testStep);
+    }
+
+    const policy = stepDef.onFailure || run.failurePolicy;
+    const keepGoing =
+      policy === "continue" ||
+      (policy === "soft" && stepDef.action === "assert");
+    // The run's error is stored and broadcast too, so it gets the redacted text
+    if (!keepGoing) throw new Error(errorMessage);
+
+    callback({
+      type: "log",
+      data: { message: `⚠️ Step ${index + 1} failed, continuing (${policy})` },
+    });
+    return testStep;
+  }
+}
+
+/**
+ * Errors reported since the last check that fail a step under the run's
+ * fail-on-error policy
+ */
+function takeBrowserErrors(run: StepRunner): BrowserLogEntry[] {
+  const entries = run.browserLogs.slice(run.checkedLogs);
+  run.checkedLogs = run.browserLogs.length;
+  const policy = run.errorPolicy;
+  return policy ? entries.filter((entry) => isFailingError(entry, policy)) : [];
+}
+
+function describeBrowserErrors(entries: BrowserLogEntry[]): string {
+  const shown = entries.slice(0, 3).map((entry) => entry.text);
+  const more = entries.length - shown.length;
+  return `Page reported ${entries.length} error${
+    entries.length === 1 ? "" : "s"
+  }: ${shown.join("; ")}${more > 0 ? ` (and ${more} more)` : ""}`;
+}
+
+/**
+ * One line per failed step, with expected and actual values for assertions
+ */
+function summarizeFailures(
+  failures: StepFailure[],
+  totalSteps: number
+): string {
+  const lines = failures.map((failure) => {
+    const { assertion } = failure;
+    const label = `${failure.stepId} (${failure.description || failure.action})`;
+    if (assertion && assertion.actual !== undefined) {
+      return `- ${label}: ${assertion.type} expected ${JSON.stringify(
+        assertion.expected
+      )}, got ${JSON.stringify(truncateValue(assertion.actual))}`;
+    }
+    return `- ${label}: ${failure.error}`;
+  });
+
+  return `${failures.length} of ${totalSteps} steps failed:\n${lines.join("\n")}`;
+}
+
+function truncateValue(value: unknown, maxLength = 200): unknown {
+  return typeof value === "string" && value.length > maxLength
+    ? `${value.slice(0, maxLength)}...`
+    : value;
+}
+
+/**
+ * Put placeholders back in place of credentials and resolved template
+ * values, for text sent to the AI
+ */
+function redact(run: StepRunner, text: string): string {
+  return redactTemplateValues(
+    redactCredentials(text, run.credentials),
+    run.templates
+  );
+}
+
+/**
+ * Put placeholders back in place of credentials and secret template values
+ * only, for page content the AI reads and step errors and resolutions that
+ * are broadcast and stored
+ */
+function redactSecrets(run: StepRunner, text: string): string {
+  return redactSecretValues(
+    redactCredentials(text, run.credentials),
+    run.templates
+  );
+}
+
+function errorText(run: StepRunner, error: unknown): string {
+  return redactSecrets(
+    run,
+    error instanceof Error ? error.message : String(error)
+  );
+}
+
+function redactCandidates(
+  run: StepRunner,
+  candidates: TargetCandidate[]
+): TargetCandidate[] {
+  return candidates.map((candidate) => ({
+    ...candidate,
+    selector: redactSecrets(run, candidate.selector),
+  }));
+}
+
+// The target and selectors a step was resolved with contain its
+// interpolated values
+function redactResolution(run: StepRunner, testStep: TestStep) {
+  const { resolution } = testStep;
+  if (!resolution) return;
+  testStep.resolution = {
+    ...resolution,
+    target: redactSecrets(run, resolution.target),
+    selector: redactSecrets(run, resolution.selector),
+    candidates: redactCandidates(run, resolution.candidates),
+  };
+}
+
+/**
+ * The current page as the AI sees it, with field values masked and
+ * secrets replaced by their placeholders
+ */
+function snapshotPage(run: StepRunner) {
+  return capturePageSnapshot(run.page, (text) => redactSecrets(run, text));
+}
+
+function redactStep(run: StepRunner, step: StructuredStep): StructuredStep {
+  const { assertion } = step;
+  return {
+    ...step,
+    target: step.target && redact(run, step.target),
+    value: step.value && redact(run, step.value),
+    assertion: assertion && {
+      ...assertion,
+      expected:
+        typeof assertion.expected === "string"
+          ? redact(run, assertion.expected)
+          : assertion.expected,
+    },
+  };
+}
+
+/**
+ * Ask the AI why a step failed and broadcast the diagnosis. Analysis
+ * problems are logged but never replace the original step error.
+ */
+async function analyzeFailure(
+  run: StepRunner,
+  stepDef: StructuredStep,
+  testStep: TestStep
+) {
+  const { callback } = run;
+
+  callback({
+    type: "log",
+    data: { message: "🔍 Analyzing failure..." },
+  });
+
+  try {
+    const snapshot = await snapshotPage(run);
+    const diagnosis = await diagnoseFailure(
+      {
+        failedStep: redactStep(run, stepDef),
+        previousSteps: run.history
+          .slice(0, -1)
+          .map((step) => redactStep(run, step)),
+        error: redact(run, testStep.error ?? ""),
+        consoleErrors: run.browserLogs
+          .filter((entry) => entry.level === "error")
+          .map((entry) => redact(run, entry.text)),
+        snapshot,
+      },
+      run.ai
+    );
+
+    run.execution.diagnosis = { stepId: testStep.id, ...diagnosis };
+    callback({
+      type: "diagnosis",
+      data: { diagnosis: run.execution.diagnosis },
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    callback({
+      type: "log",
+      data: { message: `🔍 Failure analysis unavailable: ${message}` },
+    });
+  }
+}
+
+/**
+ * Ask the AI for a replacement locator after a target lookup failure and
+ * retry the step once with it. Returns true if the retried step passed.
+ */
+async function healStep(
+  run: StepRunner,
+  stepDef: StructuredStep,
+  testStep: TestStep,
+  error: unknown
+): Promise<boolean> {
+  const { page, callback } = run;
+  const isLocatorError =
+    error instanceof TargetNotFoundError ||
+    error instanceof errors.TimeoutError;
+  if (
+    !isLocatorError ||
+    !stepDef.target ||
+    !HEALABLE_ACTIONS.has(stepDef.action)
+  ) {
+    return false;
+  }
+
+  // Shown and stored with secret values replaced by their placeholders
+  const from = redactSecrets(run, stepDef.target);
+  callback({
+    type: "log",
+    data: {
+      message: `🩹 Target "${from}" not found, trying to heal...`,
+    },
+  });
+
+  // Every attempt is recorded, so a healed pass is never mistaken for a
+  // clean one and failed attempts stay visible
+  const recordAttempt = (attempt: Omit<HealAttempt, "from" | "timestamp">) => {
+    testStep.healAttempts = [
+      ...(testStep.healAttempts ?? []),
+      { from, ...attempt, timestamp: Date.now() },
+    ];
+    if (attempt.healed) {
+      run.execution.healedSteps = (run.execution.healedSteps ?? 0) + 1;
+    } else {
+      run.execution.failedHeals = (run.execution.failedHeals ?? 0) + 1;
+    }
+  };
+
+  // The AI sees placeholders, never credentials or secret values, in the
+  // step, the error and the page
+  const snapshot = await snapshotPage(run);
+  const suggestion = await suggestLocator(
+    redactStep(run, stepDef),
+    redact(run, error instanceof Error ? error.message : String(error)),
+    snapshot,
+    run.ai
+  );
+
+  if (!suggestion) {
+    recordAttempt({ healed: false, error: "No replacement locator found" });
+    callback({
+      type: "log",
+      data: { message: `🩹 No replacement found for "${from}"` },
+    });
+    return false;
+  }
+
+  try {
+    await executeStep(
+      page,
+      { ...stepDef, target: suggestion.selector },
+      testStep,
+      stepTimeouts(run, stepDef),
+      run.templates,
+      run.network,
+      run.visual
+    );
+  } catch (retryError: unknown) {
+    const retryMessage = errorText(run, retryError);
+    recordAttempt({
+      to: suggestion.selector,
+      reason: suggestion.reason,
+      healed: false,
+      error: retryMessage,
+    });
+    callback({
+      type: "log",
+      data: {
+        message: `🩹 Healed locator "${suggestion.selector}" also failed: ${retryMessage}`,
+      },
+    });
+    return false;
+  }
+
+  testStep.healed = {
+    from,
+    to: suggestion.selector,
+    reason: suggestion.reason,
+  };
+  recordAttempt({
+    to: suggestion.selector,
+    reason: suggestion.reason,
+    healed: true,
+  });
+
+  callback({
+    type: "log",
+    data: {
+      message: `🩹 Healed "${from}" → "${suggestion.selector}"`,
+      healed: testStep.healed,
+    },
+  });
+
+  return true;
+}
+
 /**
  * Execute a single test step
  */
 async function executeStep(
   page: Page,
   stepDef: StructuredStep,
-  testStep: TestStep
+  testStep: TestStep,
+  timeouts: StepTimeouts,
+  templates: TemplateContext,
+  network: NetworkLog,
+  visual: VisualContext
 ): Promise<void> {
   const { action, target, value, assertion } = stepDef;
+  const timeout = timeouts.action;
 
   switch (action) {
     case "navigate":
       if (!target) throw new Error("Navigate action requires target URL");
-      await page.goto(target, { waitUntil: "networkidle" });
+      await page.goto(target, {
+        waitUntil: "load",
+        timeout: timeouts.navigation,
+      });
       break;
 
-    case "click":
+    case "click": {
       if (!target) throw new Error("Click action requires target");
-      await page.click(`text="${target}"`).catch(() => {
-        // Try other selectors
-        return page.click(target);
+      const element = await resolveStepTarget(page, stepDef, testStep, timeout);
+      // Playwright waits for the element to be visible, stable and enabled
+      await element.click({ timeout });
+      // Let a navigation started by the click commit before the next step
+      await page.waitForLoadState("domcontentloaded", {
+        timeout: timeouts.navigation,
       });
-      await page.waitForTimeout(500); // Small delay after click
       break;
+    }
 
-    case "fill":
+    case "fill": {
       if (!target || !value)
         throw new Error("Fill action requires target and value");
-      await page
-        .fill(
-          `input[type="text"], input[type="email"], input[type="password"], textarea`,
-          value
-        )
-        .catch(() => {
-          // Try by label
-          return page.fill(
-            `label:has-text("${target}") + input, [placeholder*="${target}"]`,
-            value
-          );
-        });
+      const element = await resolveStepTarget(page, stepDef, testStep, timeout);
+      await element.fill(value, { timeout });
       break;
+    }
 
-    case "select":
+    case "select": {
       if (!target || !value)
         throw new Error("Select action requires target and value");
-      await page.selectOption(target, value);
+      const element = await resolveStepTarget(page, stepDef, testStep, timeout);
+      await element.selectOption(value, { timeout });
       break;
+    }
 
     case "wait": {
       const waitTime = Number.parseInt(value || "1000", 10);
@@ -220,10 +1171,31 @@ async function executeStep(
       break;
     }
 
-    case "assert":
+    case "assert": {
       if (!assertion) throw new Error("Assert action requires assertion");
-      await performAssertion(page, assertion, testStep);
+      // The last comparison is kept whether or not it passed
+      let check: VisualCheck | undefined;
+      try {
+        await pollAssertion(async () => {
+          const result = await performAssertion(
+            page,
+            stepDef,
+            testStep,
+            templates,
+            { network, visual, stepId: testStep.id }
+          );
+          check = result.visual;
+          if (!result.passed) {
+            throw new Error(redactSecretValues(result.message, templates));
+          }
+        }, timeouts.assertion);
+      } finally {
+        if (check) {
+          testStep.visual = await recordVisual(visual, testStep.id, check);
+        }
+      }
       break;
+    }
 
     case "screenshot":
       // Screenshot is taken automatically after each step
@@ -236,126 +1208,150 @@ async function executeStep(
       break;
     }
 
-    case "hover":
+    case "hover": {
       if (!target) throw new Error("Hover action requires target");
-      await page.hover(`text="${target}"`).catch(() => page.hover(target));
+      const element = await resolveStepTarget(page, stepDef, testStep, timeout);
+      await element.hover({ timeout });
       break;
+    }
 
     case "keyboard":
       if (!value) throw new Error("Keyboard action requires value");
       await page.keyboard.press(value);
       break;
 
-    default:
-      throw new Error(`Unknown action: ${action}`);
-  }
-}
-
-/**
- * Perform an assertion
- */
-async function performAssertion(
-  page: Page,
-  assertion: StructuredStep["assertion"],
-  testStep: TestStep
-): Promise<void> {
-  if (!assertion) {
-    throw new Error("Assertion is required");
-  }
-
-  const { type, expected } = assertion;
-
-  switch (type) {
-    case "text": {
-      const textContent = await page.textContent("body");
-      const expectedText = String(expected);
-      const found = textContent?.includes(expectedText) ?? false;
-      testStep.assertion = {
-        ...assertion,
-        actual: textContent ?? undefined,
-        passed: found,
+    case "extract": {
+      if (!stepDef.extract) throw new Error("Extract action requires extract");
+      const { variable, secret } = stepDef.extract;
+      const extracted = {
+        value: await extractValue(page, stepDef.extract, target, timeout),
+        secret: secret === true,
       };
-      if (!found) {
-        throw new Error(`Expected text "${expectedText}" not found`);
-      }
+      templates.variables.set(variable, extracted);
+      testStep.extracted = describeExtracted(variable, extracted);
       break;
     }
 
-    case "url": {
-      const url = page.url();
-      const expectedUrl = String(expected);
-      testStep.assertion = {
-        ...assertion,
-        actual: url,
-        passed: url.includes(expectedUrl),
-      };
-      if (!url.includes(expectedUrl)) {
-        throw new Error(
-          `Expected URL to contain "${expectedUrl}", got "${url}"`
-        );
-      }
+    case "mock":
+      if (!target || !stepDef.mock)
+        throw new Error("Mock action requires target URL pattern and mock");
+      await addMock(page, network, target, stepDef.mock);
       break;
-    }
 
-    case "title": {
-      const title = await page.title();
-      const expectedTitle = String(expected);
-      testStep.assertion = {
-        ...assertion,
-        actual: title,
-        passed: title.includes(expectedTitle),
-      };
-      if (!title.includes(expectedTitle)) {
-        throw new Error(
-          `Expected title to contain "${expectedTitle}", got "${title}"`
-        );
-      }
+    case "block":
+      if (!target) throw new Error("Block action requires target hosts");
+      await blockHosts(page, network, parseHosts(target));
       break;
-    }
 
-    case "element": {
-      const expectedSelector = String(expected);
-      const element = await page.locator(expectedSelector).first();
-      // Playwright's isVisible() returns a Promise
-      // eslint-disable-next-line @typescript-eslint/await-thenable
-      const isVisible = await element.isVisible();
-      testStep.assertion = {
-        ...assertion,
-        actual: isVisible ? "visible" : "not visible",
-        passed: isVisible,
-      };
-      if (!isVisible) {
-        throw new Error(
-          `Expected element "${expectedSelector}" not found or not visible`
-        );
-      }
+    case "audit": {
+      const scope = target
+        ? await resolveStepTarget(page, stepDef, testStep, timeout)
+        : undefined;
+      testStep.audit = await runAudit(page, stepDef.audit, scope);
       break;
     }
 
-    case "count": {
-      const expectedSelector = String(expected);
-      const expectedCount =
-        typeof expected === "number"
-          ? expected
-          : Number.parseInt(String(expected), 10);
-      const count = await page.locator(expectedSelector).count();
-      testStep.assertion = {
-        ...assertion,
-        actual: count,
-        passed: count === expectedCount,
-      };
-      if (count !== expectedCount) {
-        throw new Error(`Expected ${expectedCount} elements, found ${count}`);
-      }
-      break;
+    default:
+      throw new Error(`Unknown action: ${action}`);
+  }
+}
+
+/**
+ * Re-run an assertion until it passes or `timeout` ms have passed,
+ * rethrowing its last failure
+ */
+async function pollAssertion(check: () => Promise<void>, timeout: number) {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    try {
+      return await check();
+    } catch (error: unknown) {
+      if (Date.now() + ASSERTION_POLL_INTERVAL_MS > deadline) throw error;
+      await sleep(ASSERTION_POLL_INTERVAL_MS);
     }
   }
 }
 
+/**
+ * Resolve the step target to an element, waiting up to `timeout` ms for it
+ * to appear, and record how it was matched
+ */
+async function resolveStepTarget(
+  page: Page,
+  stepDef: StructuredStep,
+  testStep: TestStep,
+  timeout: number
+): Promise<Locator> {
+  const { locator, resolution } = await waitForTarget(
+    page,
+    stepDef.target!,
+    stepDef.action,
+    timeout
+  );
+  testStep.resolution = resolution;
+  return locator;
+}
+
+/**
+ * Perform an assertion, scoped to the step target if it has one, and
+ * record its outcome on the step
+ */
+async function performAssertion(
+  page: Page,
+  stepDef: StructuredStep,
+  testStep: TestStep,
+  templates: TemplateContext,
+  context: AssertionContext
+): Promise<AssertionResult> {
+  if (!stepDef.assertion) {
+    throw new Error("Assertion is required");
+  }
+
+  const result = await evaluateAssertion(
+    page,
+    stepDef.assertion,
+    stepDef.target,
+    context
+  );
+  const { actual, passed, resolution, audit } = result;
+  // Secret values resolved into expected, or read back from the page, are
+  // kept out of step events and the stored record
+  const redact = <T>(value: T) =>
+    typeof value === "string" ? redactSecretValues(value, templates) : value;
+  testStep.assertion = {
+    ...stepDef.assertion,
+    expected: redact(stepDef.assertion.expected),
+    actual: redact(actual),
+    passed,
+  };
+  if (resolution) testStep.resolution = resolution;
+  if (audit) testStep.audit = audit;
+  return result;
+}
+
+/**
+ * One line summary of the emulated environment for the run log
+ */
+function describeContext(environment: RunEnvironment): string {
+  const { viewport } = environment;
+  return [
+    `${environment.browser} ${environment.browserVersion}`,
+    environment.device,
+    viewport && `${viewport.width}×${viewport.height}`,
+    environment.locale,
+    environment.timezone,
+    environment.colorScheme,
+    environment.geolocation &&
+      `at ${environment.geolocation.latitude},${environment.geolocation.longitude}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
 /**
  * Get the appropriate browser engine
  */
-function getBrowserEngine(browserType: "chromium" | "firefox" | "webkit") {
+function getBrowserEngine(browserType: BrowserName) {
   switch (browserType) {
     case "chromium":
       return chromium;
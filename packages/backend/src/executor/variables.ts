@@ -0,0 +1,81 @@
+import { Page } from "playwright";
+import { ExtractedValue, Extraction } from "@quality-pilot/shared";
+import { parsePattern } from "../ai/schema.js";
+import { waitForTarget } from "./targetResolver.js";
+
+export interface RunVariable {
+  value: string;
+  secret: boolean;
+}
+
+// Run-scoped values captured by extract steps, by name
+export type RunVariables = Map<string, RunVariable>;
+
+const MASK = "••••••";
+
+/**
+ * Read the value an extract step asks for. Throws if the element or
+ * attribute is missing or the pattern does not match.
+ */
+export async function extractValue(
+  page: Page,
+  extraction: Extraction,
+  target: string | undefined,
+  timeout: number
+): Promise<string> {
+  let raw: string;
+
+  if (extraction.from === "url") {
+    raw = page.url();
+  } else {
+    if (!target) {
+      throw new Error(`Extracting from "${extraction.from}" requires target`);
+    }
+    const { locator } = await waitForTarget(page, target, "extract", timeout);
+
+    switch (extraction.from) {
+      case "text":
+        raw = await locator.innerText({ timeout });
+        break;
+      case "value":
+        raw = await locator.inputValue({ timeout });
+        break;
+      case "attribute": {
+        const value = await locator.getAttribute(extraction.attribute ?? "", {
+          timeout,
+        });
+        if (value === null) {
+          throw new Error(
+            `Attribute "${extraction.attribute}" not found on "${target}"`
+          );
+        }
+        raw = value;
+        break;
+      }
+    }
+  }
+
+  if (!extraction.pattern) return raw.trim();
+
+  const match = parsePattern(extraction.pattern).exec(raw);
+  if (!match) {
+    throw new Error(
+      `Pattern ${extraction.pattern} did not match ${JSON.stringify(raw.slice(0, 200))}`
+    );
+  }
+  return match[1] ?? match[0];
+}
+
+/**
+ * How an extracted value is shown in step events
+ */
+export function describeExtracted(
+  name: string,
+  variable: RunVariable
+): ExtractedValue {
+  return {
+    variable: name,
+    value: variable.secret ? MASK : variable.value,
+    secret: variable.secret || undefined,
+  };
+}
@@ -0,0 +1,204 @@
+import { Locator, Page } from "playwright";
+import { PNG } from "pngjs";
+import pixelmatch from "pixelmatch";
+import { VisualBaseline, VisualComparison } from "@quality-pilot/shared";
+import { saveArtifact } from "../artifacts/recorder.js";
+import {
+  BaselineScope,
+  baselineKey,
+  createBaseline,
+  getBaseline,
+  getBaselineImage,
+} from "../store/baselineStore.js";
+
+// Where a run's visual assertions find and create baselines
+export interface VisualContext extends BaselineScope {
+  testId: string;
+}
+
+// A comparison before its images are stored
+export interface VisualCheck {
+  name: string;
+  key: string;
+  baseline: VisualBaseline;
+  // Set when this screenshot became the first version of the baseline
+  created?: boolean;
+  actual: Buffer;
+  diff?: Buffer;
+  diffPixels?: number;
+  diffRatio?: number;
+  mismatch?: string;
+  passed: boolean;
+}
+
+// Share of pixels allowed to differ unless the assertion sets a threshold
+const DEFAULT_THRESHOLD = 0.001;
+// Per-pixel color distance (0-1) below which pixelmatch counts pixels as equal
+const PIXEL_THRESHOLD = 0.1;
+// How long to wait for the image of a baseline another run is still creating
+const IMAGE_WAIT_MS = 2_000;
+const IMAGE_POLL_INTERVAL_MS = 200;
+
+/**
+ * Screenshot the page (or `element`) with `masks` painted over and compare
+ * it to the step's baseline called `name`. Without a baseline the screenshot
+ * becomes version 1 and the check passes; of runs racing to create it, only
+ * one does and the others compare against it.
+ */
+export async function compareWithBaseline(
+  page: Page,
+  context: VisualContext,
+  stepId: string,
+  name: string,
+  threshold = DEFAULT_THRESHOLD,
+  element?: Locator,
+  masks: Locator[] = []
+): Promise<VisualCheck> {
+  const options = {
+    type: "png" as const,
+    animations: "disabled" as const,
+    caret: "hide" as const,
+    mask: masks,
+  };
+  const actual = element
+    ? await element.screenshot(options)
+    : await page.screenshot(options);
+
+  const key = baselineKey(context, stepId, name);
+  let baseline = await getBaseline(key);
+  if (!baseline) {
+    const result = await createBaseline(context, name, actual, {
+      testId: context.testId,
+      stepId,
+    });
+    if (result.created) {
+      return {
+        name,
+        key,
+        baseline: result.baseline,
+        created: true,
+        actual,
+        passed: true,
+      };
+    }
+    baseline = result.baseline;
+  }
+
+  const expected = await waitForImage(baseline);
+  if (!expected) {
+    return {
+      name,
+      key,
+      baseline,
+      actual,
+      mismatch: `baseline image v${baseline.version} is missing from storage`,
+      passed: false,
+    };
+  }
+
+  const before = PNG.sync.read(expected);
+  const after = PNG.sync.read(actual);
+  if (before.width !== after.width || before.height !== after.height) {
+    return {
+      name,
+      key,
+      baseline,
+      actual,
+      mismatch: `screenshot is ${after.width}×${after.height}, baseline is ${before.width}×${before.height}`,
+      passed: false,
+    };
+  }
+
+  const { width, height } = after;
+  const diff = new PNG({ width, height });
+  const diffPixels = pixelmatch(
+    before.data,
+    after.data,
+    diff.data,
+    width,
+    height,
+    { threshold: PIXEL_THRESHOLD }
+  );
+  const diffRatio = diffPixels / (width * height);
+  return {
+    name,
+    key,
+    baseline,
+    actual,
+    diff: diffPixels > 0 ? PNG.sync.write(diff) : undefined,
+    diffPixels,
+    diffRatio,
+    passed: diffRatio <= threshold,
+  };
+}
+
+/**
+ * Store a check's screenshot and diff image as step artifacts
+ */
+export async function recordVisual(
+  context: VisualContext,
+  stepId: string,
+  check: VisualCheck
+): Promise<VisualComparison> {
+  const actual = await saveArtifact(context.testId, {
+    kind: "screenshot",
+    name: visualArtifactName(stepId, "actual"),
+    body: check.actual,
+    contentType: "image/png",
+    stepId,
+  });
+
+  if (check.created) {
+    return {
+      baseline: check.name,
+      key: check.key,
+      status: "created",
+      actual: actual.url,
+      expected: check.baseline.image,
+    };
+  }
+
+  const diff =
+    check.diff &&
+    (await saveArtifact(context.testId, {
+      kind: "screenshot",
+      name: visualArtifactName(stepId, "diff"),
+      body: check.diff,
+      contentType: "image/png",
+      stepId,
+    }));
+  return {
+    baseline: check.name,
+    key: check.key,
+    status: check.passed ? "matched" : "changed",
+    diffPixels: check.diffPixels,
+    diffRatio: check.diffRatio,
+    mismatch: check.mismatch,
+    actual: actual.url,
+    expected: check.baseline.image,
+    diff: diff?.url,
+  };
+}
+
+/**
+ * Artifact name of a visual assertion's screenshot or diff image
+ */
+export function visualArtifactName(
+  stepId: string,
+  image: "actual" | "diff"
+): string {
+  return `visual/${stepId}_${image}.png`;
+}
+
+/**
+ * The baseline's image, waiting briefly in case the run that created it is
+ * still uploading it
+ */
+async function waitForImage(baseline: VisualBaseline): Promise<Buffer | null> {
+  const deadline = Date.now() + IMAGE_WAIT_MS;
+  for (;;) {
+    const image = await getBaselineImage(baseline);
+    if (image || Date.now() >= deadline) return image;
+    await new Promise((resolve) => setTimeout(resolve, IMAGE_POLL_INTERVAL_MS));
+  }
+}
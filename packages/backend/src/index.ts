@@ -3,8 +3,14 @@ import cors from 'cors';
 import { createServer } from 'http';
 import { WebSocketServer } from 'ws';
 import { testRouter } from './routes/test.js';
+import { plansRouter } from './routes/plans.js';
+import { usageRouter } from './routes/usage.js';
+import { artifactsRouter } from './routes/artifacts.js';
+import { datasetsRouter } from './routes/datasets.js';
+import { baselinesRouter } from './routes/baselines.js';
 import { wsHandler } from './websocket/handler.js';
 import { initializeQueue } from './queue/queue.js';
+import { scheduleArtifactPruning } from './artifacts/recorder.js';
 
 const app = express();
 const server = createServer(app);
@@ -14,10 +20,16 @@ const PORT = process.env.PORT || 3001;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Large enough for dataset uploads
+app.use(express.json({ limit: '5mb' }));
 
 // Routes
 app.use('/api/test', testRouter);
+app.use('/api/plans', plansRouter);
+app.use('/api/usage', usageRouter);
+app.use('/api/artifacts', artifactsRouter);
+app.use('/api/datasets', datasetsRouter);
+app.use('/api/baselines', baselinesRouter);
 
 // Health check
 app.get('/health', (req, res) => {
@@ -30,6 +42,9 @@ wss.on('connection', wsHandler);
 // Initialize queue
 await initializeQueue();
 
+// Delete artifacts past ARTIFACT_RETENTION_DAYS
+scheduleArtifactPruning();
+
 server.listen(PORT, () => {
   console.log(`🚀 QualityPilot Backend running on port ${PORT}`);
   console.log(`📡 WebSocket server ready`);
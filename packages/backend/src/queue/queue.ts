@@ -1,35 +1,73 @@
 import { Queue, Worker, Job } from 'bullmq';
-import Redis from 'ioredis';
+import { TestExecution } from '@quality-pilot/shared';
 import { executeTest } from '../executor/testExecutor.js';
+import { summarizeNetwork } from '../executor/network.js';
+import { countBrowserLogs } from '../executor/browserLogs.js';
 import { broadcastToClients } from '../websocket/handler.js';
-import { WSMessage } from '@quality-pilot/shared';
-
-const connection = new Redis({
-  host: process.env.REDIS_HOST || 'localhost',
-  port: parseInt(process.env.REDIS_PORT || '6379'),
-  maxRetriesPerRequest: null,
-});
+import { redis as connection } from '../store/redis.js';
+import { createExecution, saveExecution } from '../store/executionStore.js';
+import { getUsageTotals } from '../store/usageStore.js';
+import { executeRunGroup, finishChildRun, startChildRun } from './runGroups.js';
 
 export const testQueue = new Queue('test-execution', { connection });
 
 let worker: Worker | null = null;
 
+/**
+ * Payload of test_completed and test_failed. Network and browser logs are
+ * only counted; the full record is served by GET /api/test/status/:testId
+ */
+function completionData(execution: TestExecution) {
+  return {
+    error: execution.error,
+    failures: execution.failures,
+    timestamp: execution.endTime,
+    healedSteps: execution.healedSteps,
+    failedHeals: execution.failedHeals,
+    plan: execution.plan,
+    aiUsage: execution.aiUsage,
+    trace: execution.trace,
+    video: execution.video,
+    seed: execution.seed,
+    environment: execution.environment,
+    networkSummary: execution.network && summarizeNetwork(execution.network),
+    browserLogCounts: execution.browserLogs && countBrowserLogs(execution.browserLogs),
+    testKey: execution.testKey,
+  };
+}
+
 export async function initializeQueue() {
   worker = new Worker(
     'test-execution',
     async (job: Job) => {
-      const { testId, ...testPrompt } = job.data;
+      // Dataset and matrix runs fan out into child jobs
+      if (job.name === 'execute-group') {
+        await executeRunGroup(job, testQueue);
+        return;
+      }
+
+      const { testId, caller, parentId, row, cell, plan, ...testPrompt } = job.data;
 
       // Notify clients that test started
       broadcastToClients({
         type: 'test_started',
         testId,
-        data: { prompt: testPrompt.prompt },
+        data: { prompt: testPrompt.prompt, parentId, row, cell },
       });
 
+      const execution = createExecution(testId, testPrompt.prompt);
+      execution.caller = caller;
+      execution.parentId = parentId;
+      execution.row = row;
+      execution.cell = cell;
+      // Children run the plan their parent resolved
+      execution.plan = plan;
+      await saveExecution(execution);
+      if (parentId) await startChildRun(parentId, execution);
+
       try {
         // Execute the test
-        await executeTest(testId, testPrompt, (message) => {
+        await executeTest(execution, testPrompt, (message) => {
           broadcastToClients({
             type: message.type,
             testId,
@@ -37,25 +75,28 @@ export async function initializeQueue() {
           });
         });
 
-        // Notify completion
-        broadcastToClients({
-          type: 'test_completed',
-          testId,
-          data: { timestamp: Date.now() },
-        });
+        execution.status = 'completed';
+        execution.aiUsage = await getUsageTotals({ type: 'run', testId });
       } catch (error: any) {
         console.error(`Test ${testId} failed:`, error);
-
+        execution.status = 'failed';
+        execution.error = error.message || 'Unknown error';
+        execution.aiUsage = await getUsageTotals({ type: 'run', testId }).catch(() => undefined);
+        throw error;
+      } finally {
+        execution.endTime = Date.now();
+        await saveExecution(execution);
+        // Sent once saved, so clients can load the full logs from /status
         broadcastToClients({
-          type: 'test_failed',
+          type: execution.status === 'completed' ? 'test_completed' : 'test_failed',
           testId,
-          data: {
-            error: error.message || 'Unknown error',
-            timestamp: Date.now(),
-          },
+          data: completionData(execution),
         });
-
-        throw error;
+        if (parentId) {
+          await finishChildRun(parentId, execution).catch((error) =>
+            console.error(`Failed to update parent run ${parentId}:`, error)
+          );
+        }
       }
     },
     {
@@ -0,0 +1,306 @@
+import { Job, Queue } from 'bullmq';
+import {
+  AIUsageTotals,
+  ChildRun,
+  ChildRunSummary,
+  Dataset,
+  MatrixCell,
+  TestExecution,
+  TestMatrix,
+  TestPrompt,
+} from '@quality-pilot/shared';
+import { getPlan } from '../ai/planCache.js';
+import { templateVariableNames } from '../executor/templates.js';
+import { broadcastToClients } from '../websocket/handler.js';
+import { getDataset } from '../store/datasetStore.js';
+import {
+  createExecution,
+  getChildRuns,
+  getExecution,
+  markChildRunFinished,
+  saveChildRun,
+  saveExecution,
+} from '../store/executionStore.js';
+import { getUsageTotals } from '../store/usageStore.js';
+
+// A child run to queue: its test and what distinguishes it from siblings
+interface ChildSpec {
+  prompt: TestPrompt;
+  row?: number;
+  cell?: MatrixCell;
+}
+
+/**
+ * Fan a dataset or matrix run out into queued child runs, one per dataset
+ * row or per browser/viewport/device combination. The plan is resolved
+ * here once and every child executes exactly that version.
+ * The parent stays running until its last child finishes.
+ */
+export async function executeRunGroup(job: Job, queue: Queue): Promise<void> {
+  const { testId, caller, dataset: source, matrix, ...testPrompt } = job.data;
+
+  const execution = createExecution(testId, testPrompt.prompt);
+  execution.caller = caller;
+
+  broadcastToClients({
+    type: 'test_started',
+    testId,
+    data: { prompt: testPrompt.prompt },
+  });
+
+  try {
+    let specs: ChildSpec[];
+    let description: string;
+    if (source) {
+      const dataset = await getDataset(source.id);
+      if (!dataset) {
+        throw new Error(`Dataset ${source.id} not found`);
+      }
+      execution.dataset = { id: dataset.id, name: dataset.name, rows: dataset.rows.length };
+      specs = datasetChildren(testPrompt, dataset);
+      description = `dataset ${dataset.name || dataset.id}`;
+    } else {
+      specs = matrixChildren(testPrompt, matrix);
+      description = 'the browser matrix';
+    }
+
+    const mode = testPrompt.options?.mode || 'plan';
+    if (!testPrompt.steps && mode === 'plan') {
+      const { plan, cached } = await getPlan(
+        testPrompt.prompt,
+        testPrompt.url,
+        {
+          ...testPrompt.options?.ai,
+          testId,
+          caller,
+          runBudgetUsd: testPrompt.options?.aiBudgetUsd,
+        },
+        testPrompt.options?.regeneratePlan === true,
+        templateVariableNames(specs[0].prompt.testData)
+      );
+      execution.plan = { hash: plan.hash, version: plan.version };
+      for (const spec of specs) {
+        spec.prompt = { ...spec.prompt, steps: plan.steps };
+      }
+      broadcastToClients({
+        type: 'log',
+        testId,
+        data: {
+          message: cached
+            ? `📌 Reusing pinned plan v${plan.version}`
+            : `🤖 Generated plan v${plan.version}`,
+          plan: execution.plan,
+        },
+      });
+    }
+
+    execution.children = specs.map((spec, index) => ({
+      testId: `${testId}_${index}`,
+      status: 'queued',
+      row: spec.row,
+      testData: source ? spec.prompt.testData : undefined,
+      cell: spec.cell,
+    }));
+    execution.summary = summarizeChildRuns(execution.children);
+    await saveExecution(execution);
+
+    broadcastToClients({
+      type: 'log',
+      testId,
+      data: {
+        message: `🗂️ Queuing ${execution.children.length} runs from ${description}`,
+        children: execution.children,
+        summary: execution.summary,
+      },
+    });
+
+    await queue.addBulk(
+      execution.children.map((child, index) => ({
+        name: 'execute-test',
+        data: {
+          testId: child.testId,
+          caller,
+          parentId: testId,
+          row: child.row,
+          cell: child.cell,
+          plan: execution.plan,
+          ...specs[index].prompt,
+        },
+        opts: { jobId: child.testId },
+      }))
+    );
+  } catch (error: unknown) {
+    console.error(`Run group ${testId} failed:`, error);
+    execution.status = 'failed';
+    execution.error = error instanceof Error ? error.message : 'Unknown error';
+    execution.endTime = Date.now();
+    execution.aiUsage = await getUsageTotals({ type: 'run', testId }).catch(() => undefined);
+    await saveExecution(execution);
+
+    broadcastToClients({
+      type: 'test_failed',
+      testId,
+      data: {
+        error: execution.error,
+        timestamp: Date.now(),
+        plan: execution.plan,
+        aiUsage: execution.aiUsage,
+      },
+    });
+
+    throw error;
+  }
+}
+
+/**
+ * One child per row, with the row merged into the test data
+ */
+function datasetChildren(testPrompt: TestPrompt, dataset: Dataset): ChildSpec[] {
+  return dataset.rows.map((row, index) => ({
+    prompt: { ...testPrompt, testData: { ...testPrompt.testData, ...row } },
+    row: index,
+  }));
+}
+
+/**
+ * One child per browser × viewport × device combination; a dimension the
+ * matrix leaves out keeps the test's own option
+ */
+function matrixChildren(testPrompt: TestPrompt, matrix: TestMatrix): ChildSpec[] {
+  const options = testPrompt.options ?? {};
+  const browsers = matrix.browsers ?? [options.browser ?? 'chromium'];
+  const viewports = matrix.viewports ?? [options.viewport];
+  const devices = matrix.devices ?? [options.device];
+
+  return browsers.flatMap((browser) =>
+    viewports.flatMap((viewport) =>
+      devices.map((device) => ({
+        prompt: { ...testPrompt, options: { ...options, browser, viewport, device } },
+        cell: { browser, viewport, device },
+      }))
+    )
+  );
+}
+
+/**
+ * Record that a child run started
+ */
+export async function startChildRun(parentId: string, execution: TestExecution): Promise<void> {
+  await updateChildRun(parentId, {
+    testId: execution.id,
+    status: 'running',
+    row: execution.row,
+    cell: execution.cell,
+    startTime: execution.startTime,
+  });
+}
+
+/**
+ * Record a child's result and, once every child has finished, complete
+ * the parent: it passes only if every child passed
+ */
+export async function finishChildRun(parentId: string, execution: TestExecution): Promise<void> {
+  await updateChildRun(parentId, {
+    testId: execution.id,
+    status: execution.status,
+    row: execution.row,
+    cell: execution.cell,
+    error: execution.error,
+    startTime: execution.startTime,
+    endTime: execution.endTime,
+    aiUsage: execution.aiUsage,
+    steps: execution.steps.map((step) => ({
+      id: step.id,
+      action: step.action,
+      description: step.description,
+      status: step.status,
+      error: step.error,
+    })),
+  });
+
+  const finished = await markChildRunFinished(parentId);
+  const parent = await getExecution(parentId);
+  if (!parent?.children || finished < parent.children.length) return;
+
+  parent.children = await getChildRuns(parent);
+  parent.summary = summarizeChildRuns(parent.children);
+  parent.status = parent.summary.failed > 0 ? 'failed' : 'completed';
+  parent.error =
+    parent.summary.failed > 0
+      ? `${parent.summary.failed} of ${parent.summary.total} runs failed`
+      : undefined;
+  parent.endTime = Date.now();
+  // The plan is generated under the parent, everything else under its children
+  const ownUsage = await getUsageTotals({ type: 'run', testId: parentId }).catch(() => undefined);
+  parent.aiUsage = sumUsage([ownUsage, ...parent.children.map((child) => child.aiUsage)]);
+  await saveExecution(parent);
+
+  broadcastToClients({
+    type: parent.status === 'completed' ? 'test_completed' : 'test_failed',
+    testId: parentId,
+    data: {
+      error: parent.error,
+      timestamp: parent.endTime,
+      plan: parent.plan,
+      aiUsage: parent.aiUsage,
+      children: parent.children,
+      summary: parent.summary,
+    },
+  });
+}
+
+/**
+ * Counts of a parent's children by state
+ */
+export function summarizeChildRuns(children: ChildRun[]): ChildRunSummary {
+  const summary: ChildRunSummary = {
+    total: children.length,
+    queued: 0,
+    running: 0,
+    passed: 0,
+    failed: 0,
+  };
+  for (const child of children) {
+    if (child.status === 'completed') summary.passed++;
+    else if (child.status === 'failed' || child.status === 'cancelled') summary.failed++;
+    else if (child.status === 'running') summary.running++;
+    else summary.queued++;
+  }
+  return summary;
+}
+
+function sumUsage(entries: Array<AIUsageTotals | undefined>): AIUsageTotals {
+  const total: AIUsageTotals = {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    latencyMs: 0,
+    costUsd: 0,
+  };
+  for (const usage of entries) {
+    if (!usage) continue;
+    total.calls += usage.calls;
+    total.promptTokens += usage.promptTokens;
+    total.completionTokens += usage.completionTokens;
+    total.latencyMs += usage.latencyMs;
+    total.costUsd += usage.costUsd;
+  }
+  return total;
+}
+
+/**
+ * Store a child's state and broadcast it to the parent's subscribers
+ */
+async function updateChildRun(parentId: string, update: ChildRun): Promise<void> {
+  const parent = await getExecution(parentId);
+  const previous = parent?.children?.find((child) => child.testId === update.testId);
+  const child: ChildRun = { ...previous, ...update };
+  await saveChildRun(parentId, child);
+
+  const children = parent ? await getChildRuns(parent) : [child];
+  broadcastToClients({
+    type: 'child_updated',
+    testId: parentId,
+    data: { child, summary: summarizeChildRuns(children) },
+  });
+}
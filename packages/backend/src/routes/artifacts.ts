@@ -0,0 +1,76 @@
+import { Router } from 'express';
+import { ArtifactRecord } from '@quality-pilot/shared';
+import { getArtifactStorage } from '../artifacts/storage.js';
+import { artifactKey, isValidArtifactName, isValidTestId } from '../artifacts/paths.js';
+import { getArtifacts } from '../store/artifactStore.js';
+
+const router = Router();
+
+router.get('/:testId', async (req, res) => {
+  try {
+    const { testId } = req.params;
+    const artifacts = await getArtifacts(testId);
+
+    // Run-level artifacts (video, trace) have no step
+    const steps: Record<string, ArtifactRecord[]> = {};
+    for (const artifact of artifacts) {
+      if (artifact.stepId) (steps[artifact.stepId] ??= []).push(artifact);
+    }
+
+    res.json({
+      success: true,
+      testId,
+      artifacts,
+      steps,
+    });
+  } catch (error) {
+    console.error('Error getting artifact manifest:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get artifacts',
+    });
+  }
+});
+
+// e.g. /:testId/screenshots/step_2.png, /:testId/trace.zip, /:testId/video.webm
+router.get('/:testId/:name(*)', async (req, res) => {
+  try {
+    const { testId, name } = req.params;
+    if (!isValidTestId(testId) || !isValidArtifactName(name)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid artifact path',
+      });
+      return;
+    }
+
+    const object = await getArtifactStorage().get(artifactKey(testId, name));
+    if (!object) {
+      res.status(404).json({
+        success: false,
+        error: 'Artifact not found',
+      });
+      return;
+    }
+
+    res.setHeader('Content-Type', object.contentType);
+    if (object.size) res.setHeader('Content-Length', object.size);
+    // Traces and videos are downloads; screenshots display inline
+    if (!object.contentType.startsWith('image/')) {
+      res.attachment(`${testId}-${name.split('/').pop()}`);
+    }
+    object.body.on('error', (error) => {
+      console.error('Error streaming artifact:', error);
+      res.destroy(error);
+    });
+    object.body.pipe(res);
+  } catch (error) {
+    console.error('Error getting artifact:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get artifact',
+    });
+  }
+});
+
+export { router as artifactsRouter };
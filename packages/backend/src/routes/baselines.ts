@@ -0,0 +1,88 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { artifactKey } from '../artifacts/paths.js';
+import { readObject } from '../artifacts/storage.js';
+import { visualArtifactName } from '../executor/visual.js';
+import { getBaseline, saveBaseline } from '../store/baselineStore.js';
+import { getExecution } from '../store/executionStore.js';
+
+const router = Router();
+
+const approveSchema = z.object({
+  testId: z.string().min(1),
+  stepId: z.string().min(1),
+});
+
+router.get('/:key', async (req, res) => {
+  try {
+    const baseline = await getBaseline(req.params.key);
+    if (!baseline) {
+      res.status(404).json({
+        success: false,
+        error: 'Baseline not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      baseline,
+    });
+  } catch (error) {
+    console.error('Error getting baseline:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get baseline',
+    });
+  }
+});
+
+// Make the screenshot a run's visual assertion took the new baseline
+router.post('/approve', async (req, res) => {
+  try {
+    const { testId, stepId } = approveSchema.parse(req.body);
+
+    const execution = await getExecution(testId);
+    const visual = execution?.steps.find((step) => step.id === stepId)?.visual;
+    if (!visual) {
+      res.status(404).json({
+        success: false,
+        error: 'No visual assertion for this run and step',
+      });
+      return;
+    }
+
+    const current = await getBaseline(visual.key);
+    const screenshot = await readObject(artifactKey(testId, visualArtifactName(stepId, 'actual')));
+    if (!current || !screenshot) {
+      res.status(404).json({
+        success: false,
+        error: current ? 'Screenshot no longer stored' : 'Baseline not found',
+      });
+      return;
+    }
+
+    const baseline = await saveBaseline(current, screenshot, { testId, stepId });
+    res.json({
+      success: true,
+      baseline,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors,
+      });
+      return;
+    }
+
+    console.error('Error approving baseline:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to approve baseline',
+    });
+  }
+});
+
+export { router as baselinesRouter };
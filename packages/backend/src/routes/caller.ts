@@ -0,0 +1,9 @@
+import { Request } from 'express';
+
+/**
+ * Identify the API client behind a request for usage attribution:
+ * the X-Client-Id header if present, otherwise the remote address
+ */
+export function getCaller(req: Request): string {
+  return req.get('x-client-id')?.trim() || req.ip || 'anonymous';
+}
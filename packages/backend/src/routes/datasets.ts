@@ -0,0 +1,78 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { DatasetError } from '../datasets/parser.js';
+import { createDataset, getDataset } from '../store/datasetStore.js';
+
+const router = Router();
+
+export const datasetUploadSchema = z.object({
+  format: z.enum(['csv', 'json']),
+  content: z.string().min(1),
+  name: z.string().min(1).max(200).optional(),
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const { format, content, name } = datasetUploadSchema.parse(req.body);
+    const dataset = await createDataset(format, content, name);
+
+    res.json({
+      success: true,
+      dataset: {
+        id: dataset.id,
+        name: dataset.name,
+        columns: dataset.columns,
+        rows: dataset.rows.length,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors,
+      });
+      return;
+    }
+
+    if (error instanceof DatasetError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
+
+    console.error('Error storing dataset:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to store dataset',
+    });
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    const dataset = await getDataset(req.params.id);
+    if (!dataset) {
+      res.status(404).json({
+        success: false,
+        error: 'Dataset not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      dataset,
+    });
+  } catch (error) {
+    console.error('Error getting dataset:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get dataset',
+    });
+  }
+});
+
+export { router as datasetsRouter };
@@ -0,0 +1,173 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { AIOutputValidationError } from '../ai/geminiAgent.js';
+import { refinePlan } from '../ai/planCache.js';
+import { stepPlanSchema } from '../ai/schema.js';
+import { BudgetExceededError } from '../ai/usage.js';
+import {
+  getPinnedPlan,
+  getPlanThread,
+  listPlanVersions,
+  pinPlanVersion,
+} from '../store/planStore.js';
+import { getCaller } from './caller.js';
+
+const router = Router();
+
+const pinSchema = z.object({
+  version: z.number().int().positive(),
+});
+
+const refineSchema = z.object({
+  instruction: z.string().min(1),
+  // Base version to refine; defaults to the pinned one
+  version: z.number().int().positive().optional(),
+  // Hand-edited steps to refine instead of the stored version's steps
+  steps: stepPlanSchema.optional(),
+});
+
+router.get('/:hash', async (req, res) => {
+  try {
+    const { hash } = req.params;
+    const versions = await listPlanVersions(hash);
+
+    if (versions.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Plan not found',
+      });
+      return;
+    }
+
+    const pinned = await getPinnedPlan(hash);
+
+    res.json({
+      success: true,
+      hash,
+      pinnedVersion: pinned?.version,
+      versions,
+    });
+  } catch (error) {
+    console.error('Error getting plan:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get plan',
+    });
+  }
+});
+
+router.post('/:hash/pin', async (req, res) => {
+  try {
+    const { hash } = req.params;
+    const { version } = pinSchema.parse(req.body);
+    const plan = await pinPlanVersion(hash, version);
+
+    if (!plan) {
+      res.status(404).json({
+        success: false,
+        error: 'Plan version not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      plan,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors,
+      });
+      return;
+    }
+
+    console.error('Error pinning plan:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to pin plan',
+    });
+  }
+});
+
+router.get('/:hash/thread', async (req, res) => {
+  try {
+    const { hash } = req.params;
+    const messages = await getPlanThread(hash);
+
+    res.json({
+      success: true,
+      hash,
+      messages,
+    });
+  } catch (error) {
+    console.error('Error getting plan thread:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get plan thread',
+    });
+  }
+});
+
+router.post('/:hash/refine', async (req, res) => {
+  try {
+    const { hash } = req.params;
+    const { instruction, version, steps } = refineSchema.parse(req.body);
+    const result = await refinePlan(hash, instruction, {
+      version,
+      steps,
+      usage: { caller: getCaller(req) },
+    });
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: 'Plan not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      steps: result.plan.steps,
+      plan: { hash: result.plan.hash, version: result.plan.version },
+      diff: result.diff,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors,
+      });
+      return;
+    }
+
+    if (error instanceof AIOutputValidationError) {
+      res.status(422).json({
+        success: false,
+        error: 'AI output failed validation',
+        details: error.issues,
+      });
+      return;
+    }
+
+    if (error instanceof BudgetExceededError) {
+      res.status(429).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
+
+    console.error('Error refining plan:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to refine plan',
+    });
+  }
+});
+
+export { router as plansRouter };
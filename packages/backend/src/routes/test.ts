@@ -1,37 +1,275 @@
 import { Router } from 'express';
 import { z } from 'zod';
+import { devices } from 'playwright';
 import { testQueue } from '../queue/queue.js';
+import { AIOutputValidationError } from '../ai/geminiAgent.js';
+import { getPlan } from '../ai/planCache.js';
+import { isValidPattern, stepPlanSchema } from '../ai/schema.js';
+import { assertDailyBudget, BudgetExceededError } from '../ai/usage.js';
+import { getCaller } from './caller.js';
+import { templateVariableNames } from '../executor/templates.js';
+import { getChildRuns, getExecution } from '../store/executionStore.js';
+import { createDataset, getDataset } from '../store/datasetStore.js';
+import { getPerformanceHistory } from '../store/performanceStore.js';
+import { DatasetError } from '../datasets/parser.js';
+import { summarizeChildRuns } from '../queue/runGroups.js';
+import { datasetUploadSchema } from './datasets.js';
 import { TestPrompt } from '@quality-pilot/shared';
 
 const router = Router();
 
+// Child runs a single matrix run may fan out into
+const MAX_MATRIX_CELLS = 24;
+
+const browserSchema = z.enum(['chromium', 'firefox', 'webkit']);
+
+const viewportSchema = z.object({
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+});
+
+const deviceSchema = z.string().refine(
+  (name) => name in devices,
+  'must be a Playwright device name, e.g. "iPhone 13"'
+);
+
+// Permissions Playwright can grant to a context
+const PERMISSIONS = [
+  'geolocation',
+  'midi',
+  'midi-sysex',
+  'notifications',
+  'camera',
+  'microphone',
+  'background-sync',
+  'ambient-light-sensor',
+  'accelerometer',
+  'gyroscope',
+  'magnetometer',
+  'accessibility-events',
+  'clipboard-read',
+  'clipboard-write',
+  'payment-handler',
+  'storage-access',
+] as const;
+
+const timezoneSchema = z.string().refine((timeZone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}, 'must be an IANA time zone, e.g. "Europe/Berlin"');
+
+const geolocationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  accuracy: z.number().min(0).optional(),
+});
+
+const headersSchema = z.record(
+  z.string().regex(/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/, 'must be a valid header name'),
+  z.string()
+);
+
+const errorPolicySchema = z.union([
+  z.boolean(),
+  z.object({
+    sources: z.array(z.enum(['console', 'pageerror', 'requestfailed'])).min(1).optional(),
+    allow: z
+      .array(z.string().min(1).refine(isValidPattern, 'must be a valid regular expression'))
+      .max(50)
+      .optional(),
+  }),
+]);
+
+const matrixSchema = z.object({
+  browsers: z.array(browserSchema).min(1).optional(),
+  viewports: z.array(viewportSchema).min(1).optional(),
+  devices: z.array(deviceSchema).min(1).optional(),
+}).superRefine((matrix, ctx) => {
+  const cells =
+    (matrix.browsers?.length ?? 1) * (matrix.viewports?.length ?? 1) * (matrix.devices?.length ?? 1);
+  if (cells > MAX_MATRIX_CELLS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `expands to ${cells} runs; at most ${MAX_MATRIX_CELLS} are allowed`,
+    });
+  }
+});
+
 const testPromptSchema = z.object({
   prompt: z.string().min(1),
   url: z.string().url(),
   credentials: z.record(z.string()).optional(),
   testData: z.record(z.any()).optional(),
   options: z.object({
-    browser: z.enum(['chromium', 'firefox', 'webkit']).optional(),
+    browser: browserSchema.optional(),
     headless: z.boolean().optional(),
-    timeout: z.number().optional(),
-    viewport: z.object({
-      width: z.number(),
-      height: z.number(),
+    timeout: z.number().int().positive().optional(),
+    navigationTimeout: z.number().int().positive().optional(),
+    assertionTimeout: z.number().int().positive().optional(),
+    retries: z.number().int().min(0).max(5).optional(),
+    retryBackoffMs: z.number().int().min(0).max(60_000).optional(),
+    viewport: viewportSchema.optional(),
+    device: deviceSchema.optional(),
+    selfHealing: z.boolean().optional(),
+    regeneratePlan: z.boolean().optional(),
+    analyzeFailures: z.boolean().optional(),
+    mode: z.enum(['plan', 'agent']).optional(),
+    maxSteps: z.number().int().positive().max(100).optional(),
+    ai: z.object({
+      provider: z.enum(['gemini', 'openai', 'fixture']).optional(),
+      model: z.string().min(1).optional(),
     }).optional(),
+    aiBudgetUsd: z.number().positive().optional(),
+    trace: z.enum(['off', 'on', 'retain-on-failure']).optional(),
+    onFailure: z.enum(['stop', 'continue', 'soft']).optional(),
+    seed: z.number().int().min(0).max(2 ** 31 - 1).optional(),
+    locale: z.string().regex(/^[a-z]{2,3}([-_][A-Za-z]{2,4})?$/, 'must be a locale like de-DE').optional(),
+    timezone: timezoneSchema.optional(),
+    userAgent: z.string().min(1).max(500).optional(),
+    geolocation: geolocationSchema.optional(),
+    colorScheme: z.enum(['light', 'dark', 'no-preference']).optional(),
+    permissions: z.array(z.enum(PERMISSIONS)).optional(),
+    extraHTTPHeaders: headersSchema.optional(),
+    failOnError: errorPolicySchema.optional(),
   }).optional(),
+  steps: stepPlanSchema.optional(),
+  dataset: z.union([z.object({ id: z.string().min(1) }), datasetUploadSchema]).optional(),
+  matrix: matrixSchema.optional(),
+}).refine((testPrompt) => !(testPrompt.dataset && testPrompt.matrix), {
+  message: 'dataset and matrix cannot be combined',
+  path: ['matrix'],
+});
+
+const planRequestSchema = testPromptSchema.innerType().pick({
+  prompt: true,
+  url: true,
+  testData: true,
+  options: true,
+});
+
+router.post('/plan', async (req, res) => {
+  try {
+    const { prompt, url, testData, options } = planRequestSchema.parse(req.body);
+    const { plan, cached } = await getPlan(
+      prompt,
+      url,
+      { ...options?.ai, caller: getCaller(req) },
+      options?.regeneratePlan,
+      templateVariableNames(testData)
+    );
+
+    res.json({
+      success: true,
+      steps: plan.steps,
+      plan: { hash: plan.hash, version: plan.version },
+      cached,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors,
+      });
+      return;
+    }
+
+    if (error instanceof AIOutputValidationError) {
+      res.status(422).json({
+        success: false,
+        error: 'AI output failed validation',
+        details: error.issues,
+      });
+      return;
+    }
+
+    if (error instanceof BudgetExceededError) {
+      res.status(429).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
+
+    console.error('Error generating test plan:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to generate test plan',
+    });
+  }
 });
 
 router.post('/run', async (req, res) => {
   try {
-    const validated = testPromptSchema.parse(req.body);
+    const { dataset: source, matrix, ...validated } = testPromptSchema.parse(req.body);
     const testPrompt: TestPrompt = validated;
+    const caller = getCaller(req);
+
+    // Refuse new runs once today's AI budget is spent
+    await assertDailyBudget(caller);
 
     // Generate unique test ID
     const testId = `test_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
+    // A dataset run becomes a parent job that queues one child per row
+    if (source) {
+      const dataset =
+        'id' in source
+          ? await getDataset(source.id)
+          : await createDataset(source.format, source.content, source.name);
+      if (!dataset) {
+        res.status(404).json({
+          success: false,
+          error: 'Dataset not found',
+        });
+        return;
+      }
+
+      await testQueue.add('execute-group', {
+        testId,
+        caller,
+        ...testPrompt,
+        dataset: { id: dataset.id },
+      }, {
+        jobId: testId,
+      });
+
+      res.json({
+        success: true,
+        testId,
+        dataset: { id: dataset.id, rows: dataset.rows.length },
+        message: `Queued a run for each of ${dataset.rows.length} dataset rows`,
+      });
+      return;
+    }
+
+    // A matrix run queues one child per browser/viewport/device combination
+    if (matrix) {
+      await testQueue.add('execute-group', {
+        testId,
+        caller,
+        ...testPrompt,
+        matrix,
+      }, {
+        jobId: testId,
+      });
+
+      res.json({
+        success: true,
+        testId,
+        message: 'Matrix run queued for execution',
+      });
+      return;
+    }
+
     // Add to queue
     await testQueue.add('execute-test', {
       testId,
+      caller,
       ...testPrompt,
     }, {
       jobId: testId,
@@ -52,6 +290,22 @@ router.post('/run', async (req, res) => {
       return;
     }
 
+    if (error instanceof BudgetExceededError) {
+      res.status(429).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
+
+    if (error instanceof DatasetError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
+
     console.error('Error queueing test:', error);
     res.status(500).json({
       success: false,
@@ -63,9 +317,9 @@ router.post('/run', async (req, res) => {
 router.get('/status/:testId', async (req, res) => {
   try {
     const { testId } = req.params;
-    const job = await testQueue.getJob(testId);
+    const [job, execution] = await Promise.all([testQueue.getJob(testId), getExecution(testId)]);
 
-    if (!job) {
+    if (!job && !execution) {
       res.status(404).json({
         success: false,
         error: 'Test not found',
@@ -73,14 +327,20 @@ router.get('/status/:testId', async (req, res) => {
       return;
     }
 
-    const state = await job.getState();
-    const progress = job.progress;
+    // A parent run's job ends once its children are queued; report the
+    // run itself, with each child's latest state
+    if (execution?.children) {
+      execution.children = await getChildRuns(execution);
+      execution.summary = summarizeChildRuns(execution.children);
+    }
+    const status = job && !execution?.children ? await job.getState() : execution!.status;
 
     res.json({
       success: true,
       testId,
-      status: state,
-      progress,
+      status,
+      progress: job?.progress,
+      execution,
     });
   } catch (error) {
     console.error('Error getting test status:', error);
@@ -91,4 +351,23 @@ router.get('/status/:testId', async (req, res) => {
   }
 });
 
+// Page load metrics of a test's recent runs, oldest first; the key is a
+// run's execution.testKey
+router.get('/performance/:testKey', async (req, res) => {
+  try {
+    const runs = await getPerformanceHistory(req.params.testKey);
+    res.json({
+      success: true,
+      testKey: req.params.testKey,
+      runs,
+    });
+  } catch (error) {
+    console.error('Error getting performance history:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get performance history',
+    });
+  }
+});
+
 export { router as testRouter };
@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { getRunUsageRecords, getUsageTotals, usageDate } from '../store/usageStore.js';
+
+const router = Router();
+
+const dailyQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  caller: z.string().min(1).optional(),
+});
+
+router.get('/daily', async (req, res) => {
+  try {
+    const { date = usageDate(), caller } = dailyQuerySchema.parse(req.query);
+    const totals = await getUsageTotals(
+      caller ? { type: 'caller', caller, date } : { type: 'day', date }
+    );
+
+    res.json({
+      success: true,
+      date,
+      caller,
+      totals,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors,
+      });
+      return;
+    }
+
+    console.error('Error getting daily usage:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get daily usage',
+    });
+  }
+});
+
+router.get('/runs/:testId', async (req, res) => {
+  try {
+    const { testId } = req.params;
+    const [totals, calls] = await Promise.all([
+      getUsageTotals({ type: 'run', testId }),
+      getRunUsageRecords(testId),
+    ]);
+
+    res.json({
+      success: true,
+      testId,
+      totals,
+      calls,
+    });
+  } catch (error) {
+    console.error('Error getting run usage:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get run usage',
+    });
+  }
+});
+
+export { router as usageRouter };
@@ -0,0 +1,39 @@
+import { ArtifactRecord } from '@quality-pilot/shared';
+import { redis } from './redis.js';
+
+// Runs with artifacts, scored by when their first artifact was stored
+const RUNS_KEY = 'artifacts:runs';
+
+function manifestKey(testId: string) {
+  return `artifacts:${testId}`;
+}
+
+/**
+ * Add an artifact to a run's manifest
+ */
+export async function appendArtifact(testId: string, record: ArtifactRecord): Promise<void> {
+  await redis
+    .multi()
+    .rpush(manifestKey(testId), JSON.stringify(record))
+    .zadd(RUNS_KEY, 'NX', record.createdAt, testId)
+    .exec();
+}
+
+/**
+ * A run's artifacts in the order they were stored
+ */
+export async function getArtifacts(testId: string): Promise<ArtifactRecord[]> {
+  const entries = await redis.lrange(manifestKey(testId), 0, -1);
+  return entries.map((entry) => JSON.parse(entry));
+}
+
+/**
+ * Runs whose artifacts were first stored before `cutoff`
+ */
+export async function listRunsBefore(cutoff: number): Promise<string[]> {
+  return redis.zrangebyscore(RUNS_KEY, '-inf', cutoff);
+}
+
+export async function deleteArtifactManifest(testId: string): Promise<void> {
+  await redis.multi().del(manifestKey(testId)).zrem(RUNS_KEY, testId).exec();
+}
@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import { BrowserName, VisualBaseline, Viewport } from '@quality-pilot/shared';
+import { artifactUrl } from '../artifacts/paths.js';
+import { getArtifactStorage, readObject } from '../artifacts/storage.js';
+import { redis } from './redis.js';
+
+// What besides its name tells baselines apart
+export interface BaselineScope {
+  testKey: string;
+  browser: BrowserName;
+  viewport: Viewport | null;
+}
+
+function baselineRecordKey(key: string) {
+  return `baseline:${key}`;
+}
+
+function sequenceKey(key: string) {
+  return `baseline:${key}:seq`;
+}
+
+// Baseline images live outside any run, so artifact retention never prunes them
+function imageKey(key: string, version: number) {
+  return `baselines/${key}_v${version}.png`;
+}
+
+// Claims version 1 only while the baseline has no record, so runs racing
+// to create it (dataset rows, retries) agree on one winner
+const CREATE_SCRIPT = `
+if redis.call('SET', KEYS[1], ARGV[1], 'NX') then
+  redis.call('SET', KEYS[2], 1)
+  return 1
+end
+return 0`;
+
+/**
+ * Id of the baseline called `name` for a test step, browser and viewport
+ */
+export function baselineKey(scope: BaselineScope, stepId: string, name: string): string {
+  const viewport = scope.viewport ? `${scope.viewport.width}x${scope.viewport.height}` : null;
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([scope.testKey, stepId, name, scope.browser, viewport]))
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * The current version of a baseline, or null if none was approved yet
+ */
+export async function getBaseline(key: string): Promise<VisualBaseline | null> {
+  const data = await redis.get(baselineRecordKey(key));
+  return data ? JSON.parse(data) : null;
+}
+
+/**
+ * The baseline's PNG, or null if its image is missing from storage
+ */
+export async function getBaselineImage(baseline: VisualBaseline): Promise<Buffer | null> {
+  return readObject(imageKey(baseline.key, baseline.version));
+}
+
+/**
+ * Store a screenshot as version 1 of a baseline unless another run created
+ * it first; `created` tells which happened
+ */
+export async function createBaseline(
+  scope: BaselineScope,
+  name: string,
+  png: Buffer,
+  source: { testId: string; stepId: string }
+): Promise<{ baseline: VisualBaseline; created: boolean }> {
+  const key = baselineKey(scope, source.stepId, name);
+  const baseline = baselineRecord(key, scope, name, 1, png, source);
+  const created = await redis.eval(
+    CREATE_SCRIPT,
+    2,
+    baselineRecordKey(key),
+    sequenceKey(key),
+    JSON.stringify(baseline)
+  );
+  if (!created) {
+    const existing = await getBaseline(key);
+    if (!existing) throw new Error(`Baseline ${key} disappeared while being created`);
+    return { baseline: existing, created: false };
+  }
+
+  try {
+    await getArtifactStorage().put(imageKey(key, 1), png, 'image/png');
+  } catch (error) {
+    // Without its image the claim would block every later attempt
+    await redis.del(baselineRecordKey(key), sequenceKey(key));
+    throw error;
+  }
+  return { baseline, created: true };
+}
+
+/**
+ * Store a screenshot as the next version of an existing baseline. Earlier
+ * versions' images are kept.
+ */
+export async function saveBaseline(
+  current: VisualBaseline,
+  png: Buffer,
+  source: { testId: string; stepId: string }
+): Promise<VisualBaseline> {
+  const { key } = current;
+  const version = await redis.incr(sequenceKey(key));
+  await getArtifactStorage().put(imageKey(key, version), png, 'image/png');
+
+  const baseline = baselineRecord(key, current, current.name, version, png, source);
+  await redis.set(baselineRecordKey(key), JSON.stringify(baseline));
+  return baseline;
+}
+
+function baselineRecord(
+  key: string,
+  scope: BaselineScope,
+  name: string,
+  version: number,
+  png: Buffer,
+  source: { testId: string; stepId: string }
+): VisualBaseline {
+  return {
+    key,
+    name,
+    testKey: scope.testKey,
+    browser: scope.browser,
+    viewport: scope.viewport,
+    version,
+    image: artifactUrl(imageKey(key, version)),
+    // The PNG header stores the size at fixed offsets
+    width: png.readUInt32BE(16),
+    height: png.readUInt32BE(20),
+    testId: source.testId,
+    stepId: source.stepId,
+    approvedAt: Date.now(),
+  };
+}
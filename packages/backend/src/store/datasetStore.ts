@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+import { Dataset, DatasetFormat } from '@quality-pilot/shared';
+import { parseDataset } from '../datasets/parser.js';
+import { redis } from './redis.js';
+
+const DATASET_TTL_SECONDS = 30 * 24 * 3600;
+
+function datasetKey(id: string) {
+  return `dataset:${id}`;
+}
+
+/**
+ * Parse and store a dataset. Throws DatasetError if the content is invalid.
+ */
+export async function createDataset(
+  format: DatasetFormat,
+  content: string,
+  name?: string
+): Promise<Dataset> {
+  const { columns, rows } = parseDataset(format, content);
+  const dataset: Dataset = {
+    id: `ds_${crypto.randomUUID()}`,
+    name,
+    format,
+    columns,
+    rows,
+    createdAt: Date.now(),
+  };
+
+  await redis.set(datasetKey(dataset.id), JSON.stringify(dataset), 'EX', DATASET_TTL_SECONDS);
+  return dataset;
+}
+
+/**
+ * A stored dataset, or null if it never existed or has expired
+ */
+export async function getDataset(id: string): Promise<Dataset | null> {
+  const data = await redis.get(datasetKey(id));
+  return data ? JSON.parse(data) : null;
+}
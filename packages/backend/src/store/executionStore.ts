@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { ChildRun, TestExecution } from '@quality-pilot/shared';
+import { redis } from './redis.js';
+
+const EXECUTION_TTL_SECONDS = 7 * 24 * 3600; // Keep run history for a week
+
+function executionKey(testId: string) {
+  return `execution:${testId}`;
+}
+
+/**
+ * Identify a test by prompt and URL, so its baselines and performance
+ * history survive regenerating the plan or switching AI models
+ */
+export function testKey(prompt: string, url: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([prompt.trim(), url.trim()]))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Create the record for a new run
+ */
+export function createExecution(testId: string, prompt: string): TestExecution {
+  return {
+    id: testId,
+    prompt,
+    status: 'running',
+    steps: [],
+    startTime: Date.now(),
+    screenshots: [],
+    healedSteps: 0,
+  };
+}
+
+/**
+ * Persist a run record
+ */
+export async function saveExecution(execution: TestExecution): Promise<void> {
+  await redis.set(
+    executionKey(execution.id),
+    JSON.stringify(execution),
+    'EX',
+    EXECUTION_TTL_SECONDS
+  );
+}
+
+/**
+ * Load a run record, or null if it never existed or has expired
+ */
+export async function getExecution(testId: string): Promise<TestExecution | null> {
+  const data = await redis.get(executionKey(testId));
+  return data ? JSON.parse(data) : null;
+}
+
+function childRunsKey(parentId: string) {
+  return `execution:${parentId}:children`;
+}
+
+function finishedChildrenKey(parentId: string) {
+  return `execution:${parentId}:finished`;
+}
+
+/**
+ * Record the latest state of a parent run's child. Children update
+ * concurrently, so their states live beside the parent record.
+ */
+export async function saveChildRun(parentId: string, child: ChildRun): Promise<void> {
+  await redis
+    .multi()
+    .hset(childRunsKey(parentId), child.testId, JSON.stringify(child))
+    .expire(childRunsKey(parentId), EXECUTION_TTL_SECONDS)
+    .exec();
+}
+
+/**
+ * A parent run's children in fan-out order, with their latest states
+ */
+export async function getChildRuns(parent: TestExecution): Promise<ChildRun[]> {
+  const states = await redis.hgetall(childRunsKey(parent.id));
+  return (parent.children ?? []).map((child) =>
+    states[child.testId] ? JSON.parse(states[child.testId]) : child
+  );
+}
+
+/**
+ * Count a child as finished; returns how many of the parent's children
+ * have finished so far
+ */
+export async function markChildRunFinished(parentId: string): Promise<number> {
+  const finished = await redis.incr(finishedChildrenKey(parentId));
+  await redis.expire(finishedChildrenKey(parentId), EXECUTION_TTL_SECONDS);
+  return finished;
+}
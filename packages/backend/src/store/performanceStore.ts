@@ -0,0 +1,29 @@
+import { PerformanceRun } from '@quality-pilot/shared';
+import { redis } from './redis.js';
+
+const DEFAULT_HISTORY_RUNS = 50;
+
+function historyKey(testKey: string) {
+  return `performance:${testKey}`;
+}
+
+/**
+ * Append a run's page loads to its test's history, keeping the latest
+ * PERFORMANCE_HISTORY_RUNS runs
+ */
+export async function recordPerformanceRun(testKey: string, run: PerformanceRun): Promise<void> {
+  const maxRuns = Number(process.env.PERFORMANCE_HISTORY_RUNS) || DEFAULT_HISTORY_RUNS;
+  await redis
+    .multi()
+    .rpush(historyKey(testKey), JSON.stringify(run))
+    .ltrim(historyKey(testKey), -maxRuns, -1)
+    .exec();
+}
+
+/**
+ * A test's recorded runs, oldest first
+ */
+export async function getPerformanceHistory(testKey: string): Promise<PerformanceRun[]> {
+  const entries = await redis.lrange(historyKey(testKey), 0, -1);
+  return entries.map((entry) => JSON.parse(entry));
+}
@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import {
+  PlanSource,
+  PlanThreadMessage,
+  PlanVersion,
+  StructuredStep,
+} from '@quality-pilot/shared';
+import { redis } from './redis.js';
+
+export interface PlanKeyInput {
+  prompt: string;
+  url: string;
+  provider: string;
+  model: string;
+  // Test data placeholder names the plan was generated with
+  variables?: string[];
+}
+
+function versionsKey(hash: string) {
+  return `plan:${hash}:versions`;
+}
+
+function pinnedKey(hash: string) {
+  return `plan:${hash}:pinned`;
+}
+
+function sequenceKey(hash: string) {
+  return `plan:${hash}:seq`;
+}
+
+function threadKey(hash: string) {
+  return `plan:${hash}:thread`;
+}
+
+// Stores version 1 only while no version is pinned, so concurrent first
+// runs agree on one generated plan
+const CREATE_SCRIPT = `
+if redis.call('SET', KEYS[1], '1', 'NX') then
+  redis.call('SET', KEYS[2], 1)
+  redis.call('HSET', KEYS[3], '1', ARGV[1])
+  return 1
+end
+return 0`;
+
+/**
+ * Identify a plan by what produced it: prompt, URL, provider/model and the
+ * test data names offered to the model (plans without any keep their hash)
+ */
+export function planHash({ prompt, url, provider, model, variables }: PlanKeyInput): string {
+  const key: unknown[] = [prompt.trim(), url.trim(), provider, model];
+  if (variables && variables.length > 0) key.push([...variables].sort());
+
+  return crypto.createHash('sha256').update(JSON.stringify(key)).digest('hex');
+}
+
+/**
+ * All stored versions of a plan, oldest first
+ */
+export async function listPlanVersions(hash: string): Promise<PlanVersion[]> {
+  const entries = await redis.hvals(versionsKey(hash));
+  return entries
+    .map((entry) => JSON.parse(entry) as PlanVersion)
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * A specific version of a plan
+ */
+export async function getPlanVersion(hash: string, version: number): Promise<PlanVersion | null> {
+  const entry = await redis.hget(versionsKey(hash), String(version));
+  return entry ? JSON.parse(entry) : null;
+}
+
+/**
+ * The version runs should execute, or null if none was stored yet
+ */
+export async function getPinnedPlan(hash: string): Promise<PlanVersion | null> {
+  const pinned = await redis.get(pinnedKey(hash));
+  return pinned ? getPlanVersion(hash, Number(pinned)) : null;
+}
+
+/**
+ * Store generated steps as version 1 of a plan unless another run stored a
+ * version first, in which case that pinned version is returned; `created`
+ * tells which happened
+ */
+export async function createPlanVersion(
+  hash: string,
+  key: PlanKeyInput,
+  steps: StructuredStep[]
+): Promise<{ plan: PlanVersion; created: boolean }> {
+  const plan = planRecord(hash, key, 1, steps, 'generated');
+  const created = await redis.eval(
+    CREATE_SCRIPT,
+    3,
+    pinnedKey(hash),
+    sequenceKey(hash),
+    versionsKey(hash),
+    JSON.stringify(plan)
+  );
+  if (created) return { plan, created: true };
+
+  const pinned = await getPinnedPlan(hash);
+  if (!pinned) throw new Error(`Plan ${hash} is pinned to a missing version`);
+  return { plan: pinned, created: false };
+}
+
+/**
+ * Append a new version and pin it
+ */
+export async function savePlanVersion(
+  hash: string,
+  key: PlanKeyInput,
+  steps: StructuredStep[],
+  source: PlanSource,
+  refinement?: Pick<PlanVersion, 'parentVersion' | 'instruction'>
+): Promise<PlanVersion> {
+  const version = await redis.incr(sequenceKey(hash));
+  const plan = planRecord(hash, key, version, steps, source, refinement);
+
+  await redis.hset(versionsKey(hash), String(plan.version), JSON.stringify(plan));
+  await redis.set(pinnedKey(hash), String(plan.version));
+
+  return plan;
+}
+
+function planRecord(
+  hash: string,
+  key: PlanKeyInput,
+  version: number,
+  steps: StructuredStep[],
+  source: PlanSource,
+  refinement?: Pick<PlanVersion, 'parentVersion' | 'instruction'>
+): PlanVersion {
+  return {
+    hash,
+    version,
+    steps,
+    source,
+    prompt: key.prompt,
+    url: key.url,
+    provider: key.provider,
+    model: key.model,
+    variables: key.variables?.length ? key.variables : undefined,
+    createdAt: Date.now(),
+    ...refinement,
+  };
+}
+
+/**
+ * Make an existing version the one runs execute
+ */
+export async function pinPlanVersion(hash: string, version: number): Promise<PlanVersion | null> {
+  const plan = await getPlanVersion(hash, version);
+  if (plan) {
+    await redis.set(pinnedKey(hash), String(version));
+  }
+  return plan;
+}
+
+/**
+ * The refinement conversation attached to a plan, oldest first
+ */
+export async function getPlanThread(hash: string): Promise<PlanThreadMessage[]> {
+  const entries = await redis.lrange(threadKey(hash), 0, -1);
+  return entries.map((entry) => JSON.parse(entry));
+}
+
+/**
+ * Append messages to a plan's refinement conversation
+ */
+export async function appendPlanThread(
+  hash: string,
+  messages: PlanThreadMessage[]
+): Promise<void> {
+  if (messages.length === 0) return;
+  await redis.rpush(threadKey(hash), ...messages.map((message) => JSON.stringify(message)));
+}
@@ -0,0 +1,8 @@
+import Redis from 'ioredis';
+
+// Shared by the BullMQ queue and the stores
+export const redis = new Redis({
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379'),
+  maxRetriesPerRequest: null,
+});
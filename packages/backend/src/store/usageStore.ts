@@ -0,0 +1,84 @@
+import { AIUsageRecord, AIUsageTotals } from '@quality-pilot/shared';
+import { redis } from './redis.js';
+
+const RUN_USAGE_TTL_SECONDS = 7 * 24 * 3600;
+const DAILY_USAGE_TTL_SECONDS = 90 * 24 * 3600;
+
+export type UsageScope =
+  | { type: 'run'; testId: string }
+  | { type: 'day'; date: string }
+  | { type: 'caller'; caller: string; date: string };
+
+function totalsKey(scope: UsageScope) {
+  switch (scope.type) {
+    case 'run':
+      return `usage:run:${scope.testId}:totals`;
+    case 'day':
+      return `usage:day:${scope.date}`;
+    case 'caller':
+      return `usage:caller:${scope.caller}:${scope.date}`;
+  }
+}
+
+function runRecordsKey(testId: string) {
+  return `usage:run:${testId}:records`;
+}
+
+/**
+ * UTC calendar day (YYYY-MM-DD) used to bucket daily usage
+ */
+export function usageDate(timestamp = Date.now()): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Record one model call against its run, the day and the caller's day
+ */
+export async function recordUsage(record: AIUsageRecord): Promise<void> {
+  const date = usageDate(record.timestamp);
+  const scopes: Array<[UsageScope, number]> = [[{ type: 'day', date }, DAILY_USAGE_TTL_SECONDS]];
+  if (record.testId) {
+    scopes.push([{ type: 'run', testId: record.testId }, RUN_USAGE_TTL_SECONDS]);
+  }
+  if (record.caller) {
+    scopes.push([{ type: 'caller', caller: record.caller, date }, DAILY_USAGE_TTL_SECONDS]);
+  }
+
+  const multi = redis.multi();
+  for (const [scope, ttl] of scopes) {
+    const key = totalsKey(scope);
+    multi.hincrby(key, 'calls', 1);
+    multi.hincrby(key, 'promptTokens', record.promptTokens);
+    multi.hincrby(key, 'completionTokens', record.completionTokens);
+    multi.hincrby(key, 'latencyMs', record.latencyMs);
+    multi.hincrbyfloat(key, 'costUsd', record.costUsd);
+    multi.expire(key, ttl);
+  }
+  if (record.testId) {
+    multi.rpush(runRecordsKey(record.testId), JSON.stringify(record));
+    multi.expire(runRecordsKey(record.testId), RUN_USAGE_TTL_SECONDS);
+  }
+  await multi.exec();
+}
+
+/**
+ * Aggregated usage for a run, a day or a caller's day
+ */
+export async function getUsageTotals(scope: UsageScope): Promise<AIUsageTotals> {
+  const totals = await redis.hgetall(totalsKey(scope));
+  return {
+    calls: Number(totals.calls ?? 0),
+    promptTokens: Number(totals.promptTokens ?? 0),
+    completionTokens: Number(totals.completionTokens ?? 0),
+    latencyMs: Number(totals.latencyMs ?? 0),
+    costUsd: Number(totals.costUsd ?? 0),
+  };
+}
+
+/**
+ * Every model call made for a run, oldest first
+ */
+export async function getRunUsageRecords(testId: string): Promise<AIUsageRecord[]> {
+  const entries = await redis.lrange(runRecordsKey(testId), 0, -1);
+  return entries.map((entry) => JSON.parse(entry));
+}
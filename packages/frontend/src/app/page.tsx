@@ -1,8 +1,19 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
-import { TestExecution, TestStep, WSMessage } from '@quality-pilot/shared';
-import { TestRunner } from '@/components/TestRunner';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  DatasetSource,
+  PerformanceRun,
+  PlanThreadMessage,
+  StructuredStep,
+  TestExecution,
+  TestMatrix,
+  TestOptions,
+  TestStep,
+  VisualBaseline,
+  WSMessage,
+} from '@quality-pilot/shared';
+import { PlanResult, RefineResult, TestRunner } from '@/components/TestRunner';
 import { ExecutionView } from '@/components/ExecutionView';
 import { LogsPanel } from '@/components/LogsPanel';
 
@@ -10,6 +21,8 @@ export default function Home() {
   const [testExecution, setTestExecution] = useState<TestExecution | null>(null);
   const [logs, setLogs] = useState<string[]>([]);
   const wsRef = useRef<WebSocket | null>(null);
+  // Only events for the run submitted from this page are shown
+  const activeTestIdRef = useRef<string | null>(null);
 
   useEffect(() => {
     // Connect to WebSocket
@@ -20,20 +33,52 @@ export default function Home() {
       console.log('Connected to WebSocket');
     };
 
+    // Completion events only count the run's requests and browser logs; the
+    // entries come from the stored execution record
+    const loadRunLogs = async (testId: string) => {
+      try {
+        const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+        const response = await fetch(`${apiUrl}/api/test/status/${testId}`);
+        const data = await response.json();
+        if (!data.success || !data.execution) return;
+        const { network, browserLogs } = data.execution as TestExecution;
+        setTestExecution((prev) =>
+          prev?.id === testId ? { ...prev, network, browserLogs } : prev
+        );
+      } catch (error) {
+        console.error('Error loading run logs:', error);
+      }
+    };
+
     ws.onmessage = (event) => {
       try {
         const message: WSMessage = JSON.parse(event.data);
+        if (message.testId !== activeTestIdRef.current) return;
 
         if (message.type === 'test_started') {
-          setTestExecution({
+          setTestExecution((prev) => ({
+            ...prev,
             id: message.testId,
             prompt: message.data.prompt,
             status: 'running',
             steps: [],
             startTime: Date.now(),
             screenshots: [],
+          }));
+          setLogs((prev) => [...prev, `Test started: ${message.data.prompt}`]);
+        } else if (message.type === 'child_updated') {
+          const { child, summary } = message.data;
+          setTestExecution((prev) => {
+            if (!prev) return null;
+            const children = prev.children ?? [];
+            return {
+              ...prev,
+              children: children.some((c) => c.testId === child.testId)
+                ? children.map((c) => (c.testId === child.testId ? child : c))
+                : [...children, child],
+              summary,
+            };
           });
-          setLogs([`Test started: ${message.data.prompt}`]);
         } else if (message.type === 'step_started') {
           setTestExecution((prev) => {
             if (!prev) return null;
@@ -53,16 +98,55 @@ export default function Home() {
               steps: updatedSteps,
             };
           });
+        } else if (message.type === 'step_retry') {
+          const { stepId, maxAttempts, ...retry } = message.data;
+          setTestExecution((prev) => {
+            if (!prev) return null;
+            return {
+              ...prev,
+              steps: prev.steps.map((step) =>
+                step.id === stepId ? { ...step, retries: [...(step.retries ?? []), retry] } : step
+              ),
+            };
+          });
+          setLogs((prev) => [
+            ...prev,
+            `🔁 Attempt ${retry.attempt}/${maxAttempts} of ${stepId} failed, retrying in ${retry.delayMs}ms: ${retry.error}`,
+          ]);
         } else if (message.type === 'screenshot') {
           setTestExecution((prev) => {
             if (!prev) return null;
             return {
               ...prev,
-              screenshots: [...prev.screenshots, message.data.screenshot],
+              screenshots: [...prev.screenshots, message.data.url],
+            };
+          });
+        } else if (message.type === 'diagnosis') {
+          setTestExecution((prev) => {
+            if (!prev) return null;
+            return {
+              ...prev,
+              diagnosis: message.data.diagnosis,
             };
           });
         } else if (message.type === 'log') {
           setLogs((prev) => [...prev, message.data.message]);
+          if (message.data.environment) {
+            setTestExecution((prev) => {
+              if (!prev) return null;
+              return { ...prev, environment: message.data.environment };
+            });
+          }
+          if (message.data.children) {
+            setTestExecution((prev) => {
+              if (!prev) return null;
+              return {
+                ...prev,
+                children: message.data.children,
+                summary: message.data.summary,
+              };
+            });
+          }
         } else if (message.type === 'test_completed') {
           setTestExecution((prev) => {
             if (!prev) return null;
@@ -70,9 +154,21 @@ export default function Home() {
               ...prev,
               status: 'completed',
               endTime: Date.now(),
+              healedSteps: message.data.healedSteps,
+              failedHeals: message.data.failedHeals,
+              plan: message.data.plan,
+              aiUsage: message.data.aiUsage,
+              seed: message.data.seed,
+              environment: message.data.environment,
+              testKey: message.data.testKey,
+              trace: message.data.trace,
+              video: message.data.video,
+              children: message.data.children ?? prev.children,
+              summary: message.data.summary ?? prev.summary,
             };
           });
           setLogs((prev) => [...prev, '✅ Test completed']);
+          loadRunLogs(message.testId);
         } else if (message.type === 'test_failed') {
           setTestExecution((prev) => {
             if (!prev) return null;
@@ -81,9 +177,22 @@ export default function Home() {
               status: 'failed',
               endTime: Date.now(),
               error: message.data.error,
+              failures: message.data.failures,
+              healedSteps: message.data.healedSteps,
+              failedHeals: message.data.failedHeals,
+              plan: message.data.plan,
+              aiUsage: message.data.aiUsage,
+              seed: message.data.seed,
+              environment: message.data.environment,
+              testKey: message.data.testKey,
+              trace: message.data.trace,
+              video: message.data.video,
+              children: message.data.children ?? prev.children,
+              summary: message.data.summary ?? prev.summary,
             };
           });
           setLogs((prev) => [...prev, `❌ Test failed: ${message.data.error}`]);
+          loadRunLogs(message.testId);
         }
       } catch (error) {
         console.error('Error parsing WebSocket message:', error);
@@ -105,7 +214,127 @@ export default function Home() {
     };
   }, []);
 
-  const handleTestSubmit = async (prompt: string, url: string, credentials?: Record<string, string>) => {
+  const handlePlanRequest = async (
+    prompt: string,
+    url: string,
+    options?: TestOptions,
+    testData?: Record<string, unknown>
+  ) => {
+    try {
+      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+      const response = await fetch(`${apiUrl}/api/test/plan`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          prompt,
+          url,
+          testData,
+          options,
+        }),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        return { steps: data.steps, plan: data.plan } as PlanResult;
+      }
+      alert(`Error: ${data.error}`);
+    } catch (error) {
+      console.error('Error generating plan:', error);
+      alert('Failed to generate plan');
+    }
+    return null;
+  };
+
+  const handleRefine = async (hash: string, instruction: string, steps?: StructuredStep[]) => {
+    try {
+      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+      const response = await fetch(`${apiUrl}/api/plans/${hash}/refine`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          instruction,
+          steps,
+        }),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        return { steps: data.steps, plan: data.plan, diff: data.diff } as RefineResult;
+      }
+      alert(`Error: ${data.error}`);
+    } catch (error) {
+      console.error('Error refining plan:', error);
+      alert('Failed to refine plan');
+    }
+    return null;
+  };
+
+  const handleApproveBaseline = async (testId: string, stepId: string) => {
+    try {
+      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+      const response = await fetch(`${apiUrl}/api/baselines/approve`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ testId, stepId }),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        return data.baseline as VisualBaseline;
+      }
+      alert(`Error: ${data.error}`);
+    } catch (error) {
+      console.error('Error approving baseline:', error);
+      alert('Failed to approve baseline');
+    }
+    return null;
+  };
+
+  // Stable, so the chart only reloads when the run changes
+  const handleLoadPerformance = useCallback(async (testKey: string) => {
+    try {
+      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+      const response = await fetch(`${apiUrl}/api/test/performance/${testKey}`);
+      const data = await response.json();
+      if (data.success) {
+        return data.runs as PerformanceRun[];
+      }
+    } catch (error) {
+      console.error('Error loading performance history:', error);
+    }
+    return [];
+  }, []);
+
+  const handleLoadThread = async (hash: string) => {
+    try {
+      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+      const response = await fetch(`${apiUrl}/api/plans/${hash}/thread`);
+      const data = await response.json();
+      if (data.success) {
+        return data.messages as PlanThreadMessage[];
+      }
+    } catch (error) {
+      console.error('Error loading plan thread:', error);
+    }
+    return [];
+  };
+
+  const handleTestSubmit = async (
+    prompt: string,
+    url: string,
+    credentials?: Record<string, string>,
+    steps?: StructuredStep[],
+    options?: TestOptions,
+    testData?: Record<string, unknown>,
+    dataset?: DatasetSource,
+    matrix?: TestMatrix
+  ) => {
     try {
       const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
       const response = await fetch(`${apiUrl}/api/test/run`, {
@@ -117,11 +346,27 @@ export default function Home() {
           prompt,
           url,
           credentials,
+          testData,
+          steps,
+          options,
+          dataset,
+          matrix,
         }),
       });
 
       const data = await response.json();
       if (data.success) {
+        activeTestIdRef.current = data.testId;
+        setTestExecution({
+          id: data.testId,
+          prompt,
+          status: 'queued',
+          steps: [],
+          startTime: Date.now(),
+          screenshots: [],
+        });
+        setLogs([data.message]);
+
         // Subscribe to test updates
         if (wsRef.current?.readyState === WebSocket.OPEN) {
           wsRef.current.send(JSON.stringify({
@@ -149,13 +394,22 @@ export default function Home() {
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Left: Test Runner */}
           <div className="space-y-6">
-            <TestRunner onSubmit={handleTestSubmit} />
+            <TestRunner
+              onSubmit={handleTestSubmit}
+              onPlan={handlePlanRequest}
+              onRefine={handleRefine}
+              onLoadThread={handleLoadThread}
+            />
             <LogsPanel logs={logs} />
           </div>
 
           {/* Right: Execution View */}
           <div>
-            <ExecutionView execution={testExecution} />
+            <ExecutionView
+              execution={testExecution}
+              onApproveBaseline={handleApproveBaseline}
+              onLoadPerformance={handleLoadPerformance}
+            />
           </div>
         </div>
       </div>
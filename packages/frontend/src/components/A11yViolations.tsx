@@ -0,0 +1,70 @@
+'use client';
+
+import { A11yAudit, A11yImpact } from '@quality-pilot/shared';
+
+interface A11yViolationsProps {
+  audit: A11yAudit;
+  apiUrl: string;
+}
+
+const IMPACT_CLASSES: Record<A11yImpact, string> = {
+  minor: 'text-muted-foreground',
+  moderate: 'text-amber-600',
+  serious: 'text-orange-600',
+  critical: 'text-red-600',
+};
+
+export function A11yViolations({ audit, apiUrl }: A11yViolationsProps) {
+  if (audit.violations.length === 0) {
+    return (
+      <div className="text-xs text-green-600">
+        No accessibility violations ({audit.passes} rules passed)
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1 text-xs">
+      <div className="text-muted-foreground">
+        {audit.violations.length} accessibility violation
+        {audit.violations.length === 1 ? '' : 's'}, {audit.passes} rules passed,{' '}
+        {audit.incomplete} need review
+      </div>
+      {audit.violations.map((violation) => (
+        <div key={violation.id} className="border rounded p-2 space-y-1">
+          <div className="flex items-center gap-2">
+            <span className={`font-medium ${IMPACT_CLASSES[violation.impact ?? 'minor']}`}>
+              {violation.impact ?? 'unknown'}
+            </span>
+            <a
+              href={violation.helpUrl}
+              target="_blank"
+              rel="noreferrer"
+              className="font-mono text-primary hover:underline"
+            >
+              {violation.id}
+            </a>
+            {violation.screenshot && (
+              <a
+                href={`${apiUrl}${violation.screenshot}`}
+                target="_blank"
+                rel="noreferrer"
+                className="text-primary hover:underline"
+              >
+                Screenshot
+              </a>
+            )}
+          </div>
+          <div>{violation.help}</div>
+          <ul className="list-disc ml-4 text-muted-foreground">
+            {violation.nodes.map((node, index) => (
+              <li key={index} className="font-mono break-all" title={node.failureSummary}>
+                {node.target}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
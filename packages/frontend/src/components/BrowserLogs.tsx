@@ -0,0 +1,63 @@
+'use client';
+
+import { useState } from 'react';
+import { BrowserLogEntry, BrowserLogLevel } from '@quality-pilot/shared';
+
+interface BrowserLogsProps {
+  entries: BrowserLogEntry[];
+}
+
+const LEVELS: BrowserLogLevel[] = ['debug', 'info', 'warning', 'error'];
+
+const LEVEL_CLASSES: Record<BrowserLogLevel, string> = {
+  debug: 'text-muted-foreground',
+  info: 'text-foreground',
+  warning: 'text-amber-600',
+  error: 'text-red-600',
+};
+
+/**
+ * Console messages, uncaught exceptions and failed requests, grouped by
+ * the step that was running
+ */
+export function BrowserLogs({ entries }: BrowserLogsProps) {
+  const [minLevel, setMinLevel] = useState<BrowserLogLevel>('warning');
+  const shown = entries.filter(
+    (entry) => LEVELS.indexOf(entry.level) >= LEVELS.indexOf(minLevel)
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Browser Logs</h3>
+        <select
+          value={minLevel}
+          onChange={(e) => setMinLevel(e.target.value as BrowserLogLevel)}
+          className="text-xs border rounded px-1 py-0.5"
+        >
+          {LEVELS.map((level) => (
+            <option key={level} value={level}>
+              {level} and above
+            </option>
+          ))}
+        </select>
+      </div>
+      {shown.length === 0 ? (
+        <div className="text-xs text-muted-foreground">
+          No {minLevel === 'error' ? 'errors' : `entries at ${minLevel} or above`}
+        </div>
+      ) : (
+        <div className="space-y-1 max-h-64 overflow-y-auto text-xs font-mono">
+          {shown.map((entry, index) => (
+            <div key={index} className={LEVEL_CLASSES[entry.level]} title={entry.location}>
+              <span className="text-muted-foreground">
+                {entry.stepId ?? 'setup'} · {entry.source}
+              </span>{' '}
+              <span className="break-all">{entry.text}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
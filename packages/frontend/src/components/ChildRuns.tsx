@@ -0,0 +1,65 @@
+'use client';
+
+import { ChildRun, ChildRunSummary } from '@quality-pilot/shared';
+import { CheckCircle2, XCircle, Clock, Loader2 } from 'lucide-react';
+import { formatCell, MatrixComparison } from '@/components/MatrixComparison';
+
+interface ChildRunsProps {
+  runs: ChildRun[];
+  summary?: ChildRunSummary;
+}
+
+export function ChildRuns({ runs, summary }: ChildRunsProps) {
+  const getStatusIcon = (status: ChildRun['status']) => {
+    switch (status) {
+      case 'completed':
+        return <CheckCircle2 className="h-4 w-4 text-green-500" />;
+      case 'failed':
+      case 'cancelled':
+        return <XCircle className="h-4 w-4 text-red-500" />;
+      case 'running':
+        return <Loader2 className="h-4 w-4 text-blue-500 animate-spin" />;
+      default:
+        return <Clock className="h-4 w-4 text-gray-400" />;
+    }
+  };
+
+  const formatTestData = (testData?: Record<string, unknown>) =>
+    Object.entries(testData ?? {})
+      .map(([key, value]) => `${key}=${value === null ? '' : String(value)}`)
+      .join(', ');
+
+  const getLabel = (run: ChildRun) => {
+    if (run.cell) return formatCell(run.cell);
+    return `Row ${(run.row ?? 0) + 1}`;
+  };
+
+  const isMatrix = runs.some((run) => run.cell);
+
+  return (
+    <div className="space-y-2">
+      <h3 className="font-semibold">{isMatrix ? 'Matrix Runs' : 'Dataset Rows'}</h3>
+      {summary && (
+        <div className="text-xs text-muted-foreground">
+          {summary.passed} passed, {summary.failed} failed, {summary.running} running,{' '}
+          {summary.queued} queued of {summary.total}
+        </div>
+      )}
+      <div className="space-y-1 max-h-96 overflow-y-auto">
+        {runs.map((run) => (
+          <div key={run.testId} className="border rounded-lg p-2 space-y-1">
+            <div className="flex items-center gap-2 text-sm">
+              {getStatusIcon(run.status)}
+              <span className="font-medium">{getLabel(run)}</span>
+              <span className="text-muted-foreground truncate">{formatTestData(run.testData)}</span>
+            </div>
+            {run.error && (
+              <div className="text-xs text-red-600 ml-6 whitespace-pre-line">{run.error}</div>
+            )}
+          </div>
+        ))}
+      </div>
+      {isMatrix && <MatrixComparison runs={runs} />}
+    </div>
+  );
+}
@@ -1,15 +1,33 @@
 'use client';
 
-import { TestExecution, TestStep } from '@quality-pilot/shared';
+import {
+  PerformanceMetrics,
+  PerformanceRun,
+  TestExecution,
+  TestStep,
+  VisualBaseline,
+} from '@quality-pilot/shared';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle2, XCircle, Clock, Loader2 } from 'lucide-react';
+import { ChildRuns } from '@/components/ChildRuns';
+import { NetworkLog } from '@/components/NetworkLog';
+import { BrowserLogs } from '@/components/BrowserLogs';
+import { A11yViolations } from '@/components/A11yViolations';
+import { VisualDiff } from '@/components/VisualDiff';
+import { PerformanceChart } from '@/components/PerformanceChart';
+import { CheckCircle2, XCircle, Clock, Loader2, Download } from 'lucide-react';
 
 interface ExecutionViewProps {
   execution: TestExecution | null;
+  onApproveBaseline?: (testId: string, stepId: string) => Promise<VisualBaseline | null>;
+  onLoadPerformance?: (testKey: string) => Promise<PerformanceRun[]>;
 }
 
-export function ExecutionView({ execution }: ExecutionViewProps) {
+export function ExecutionView({
+  execution,
+  onApproveBaseline,
+  onLoadPerformance,
+}: ExecutionViewProps) {
   if (!execution) {
     return (
       <Card>
@@ -26,6 +44,8 @@ export function ExecutionView({ execution }: ExecutionViewProps) {
     );
   }
 
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
   const getStatusIcon = (status: TestStep['status']) => {
     switch (status) {
       case 'completed':
@@ -50,6 +70,31 @@ export function ExecutionView({ execution }: ExecutionViewProps) {
     return variants[status] || 'bg-gray-500';
   };
 
+  const describeStepLogs = (stepId: string) => {
+    const entries = (execution.browserLogs ?? []).filter((entry) => entry.stepId === stepId);
+    const errors = entries.filter((entry) => entry.level === 'error').length;
+    const warnings = entries.filter((entry) => entry.level === 'warning').length;
+    if (errors === 0 && warnings === 0) return null;
+    return `Page logged ${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${
+      warnings === 1 ? '' : 's'
+    }`;
+  };
+
+  const describePerformance = (metrics: PerformanceMetrics) =>
+    [
+      metrics.ttfb !== undefined && `TTFB ${metrics.ttfb}ms`,
+      metrics.fcp !== undefined && `FCP ${metrics.fcp}ms`,
+      metrics.lcp !== undefined && `LCP ${metrics.lcp}ms`,
+      metrics.load !== undefined && `load ${metrics.load}ms`,
+      metrics.cls !== undefined && `CLS ${metrics.cls}`,
+      metrics.inp !== undefined && `INP ${metrics.inp}ms`,
+      metrics.tbt !== undefined && `TBT ${metrics.tbt}ms`,
+      `${metrics.requests} requests`,
+      `${Math.round(metrics.transferBytes / 1024)} KB`,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
   return (
     <Card>
       <CardHeader>
@@ -57,6 +102,38 @@ export function ExecutionView({ execution }: ExecutionViewProps) {
           <div>
             <CardTitle>Test Execution</CardTitle>
             <CardDescription>{execution.prompt}</CardDescription>
+            {execution.plan && (
+              <div className="text-xs text-muted-foreground mt-1">
+                Plan v{execution.plan.version} ({execution.plan.hash.slice(0, 8)})
+              </div>
+            )}
+            {execution.aiUsage && execution.aiUsage.calls > 0 && (
+              <div className="text-xs text-muted-foreground mt-1">
+                AI: {execution.aiUsage.calls} call{execution.aiUsage.calls === 1 ? '' : 's'},{' '}
+                {execution.aiUsage.promptTokens + execution.aiUsage.completionTokens} tokens, $
+                {execution.aiUsage.costUsd.toFixed(4)}
+              </div>
+            )}
+            {execution.environment && (
+              <div className="text-xs text-muted-foreground mt-1">
+                {[
+                  `${execution.environment.browser} ${execution.environment.browserVersion}`,
+                  execution.environment.device,
+                  execution.environment.viewport &&
+                    `${execution.environment.viewport.width}×${execution.environment.viewport.height}`,
+                  execution.environment.locale,
+                  execution.environment.timezone,
+                  execution.environment.colorScheme,
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </div>
+            )}
+            {execution.seed !== undefined && (
+              <div className="text-xs text-muted-foreground mt-1">
+                Test data seed: {execution.seed}
+              </div>
+            )}
           </div>
           <Badge className={getStatusBadge(execution.status)}>
             {execution.status}
@@ -68,62 +145,227 @@ export function ExecutionView({ execution }: ExecutionViewProps) {
         {execution.screenshots.length > 0 && (
           <div className="border rounded-lg overflow-hidden">
             <img
-              src={`data:image/png;base64,${execution.screenshots[execution.screenshots.length - 1]}`}
+              src={`${apiUrl}${execution.screenshots[execution.screenshots.length - 1]}`}
               alt="Latest screenshot"
               className="w-full"
             />
           </div>
         )}
 
+        {/* Dataset rows or matrix cells */}
+        {execution.children && (
+          <ChildRuns runs={execution.children} summary={execution.summary} />
+        )}
+
         {/* Steps */}
-        <div className="space-y-2">
-          <h3 className="font-semibold">Steps</h3>
-          <div className="space-y-2 max-h-96 overflow-y-auto">
-            {execution.steps.map((step, index) => (
-              <div
-                key={step.id}
-                className="border rounded-lg p-3 space-y-1"
-              >
-                <div className="flex items-center gap-2">
-                  {getStatusIcon(step.status)}
-                  <span className="font-medium">
-                    Step {index + 1}: {step.action}
-                  </span>
-                </div>
-                {step.target && (
-                  <div className="text-sm text-muted-foreground ml-6">
-                    Target: {step.target}
-                  </div>
-                )}
-                {step.value && (
-                  <div className="text-sm text-muted-foreground ml-6">
-                    Value: {step.value.replace(/./g, '*')}
-                  </div>
-                )}
-                {step.assertion && (
-                  <div className="text-sm ml-6">
-                    <span className={step.assertion.passed ? 'text-green-600' : 'text-red-600'}>
-                      Assertion: {step.assertion.type} - {step.assertion.passed ? '✓ Passed' : '✗ Failed'}
+        {!execution.children && (
+          <div className="space-y-2">
+            <h3 className="font-semibold">Steps</h3>
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {execution.steps.map((step, index) => (
+                <div
+                  key={step.id}
+                  className="border rounded-lg p-3 space-y-1"
+                >
+                  <div className="flex items-center gap-2">
+                    {getStatusIcon(step.status)}
+                    <span className="font-medium">
+                      Step {index + 1}: {step.action}
                     </span>
                   </div>
-                )}
-                {step.error && (
-                  <div className="text-sm text-red-600 ml-6">
-                    Error: {step.error}
+                  {step.target && (
+                    <div className="text-sm text-muted-foreground ml-6">
+                      Target: {step.target}
+                    </div>
+                  )}
+                  {step.resolution && (
+                    <div className="text-xs text-muted-foreground ml-6">
+                      Matched by {step.resolution.strategy}: {step.resolution.selector}
+                      {step.resolution.candidates.length > 1 &&
+                        ` (${step.resolution.candidates.length} candidates)`}
+                    </div>
+                  )}
+                  {step.healed && (
+                    <div className="text-sm text-amber-600 ml-6">
+                      Healed from {step.healed.from} to {step.healed.to}
+                    </div>
+                  )}
+                  {step.healAttempts
+                    ?.filter((attempt) => !attempt.healed)
+                    .map((attempt) => (
+                      <div key={attempt.timestamp} className="text-xs text-red-600 ml-6">
+                        Healing {attempt.from}
+                        {attempt.to ? ` → ${attempt.to}` : ''} failed: {attempt.error}
+                      </div>
+                    ))}
+                  {step.value && (
+                    <div className="text-sm text-muted-foreground ml-6">
+                      Value: {step.value.replace(/./g, '*')}
+                    </div>
+                  )}
+                  {step.assertion && (
+                    <div className="text-sm ml-6">
+                      <span className={step.assertion.passed ? 'text-green-600' : 'text-red-600'}>
+                        Assertion: {step.assertion.not ? 'not ' : ''}
+                        {step.assertion.type} - {step.assertion.passed ? '✓ Passed' : '✗ Failed'}
+                      </span>
+                    </div>
+                  )}
+                  {step.audit && (
+                    <div className="ml-6">
+                      <A11yViolations audit={step.audit} apiUrl={apiUrl} />
+                    </div>
+                  )}
+                  {step.visual && (
+                    <div className="ml-6">
+                      <VisualDiff
+                        comparison={step.visual}
+                        apiUrl={apiUrl}
+                        onApprove={
+                          onApproveBaseline && (() => onApproveBaseline(execution.id, step.id))
+                        }
+                      />
+                    </div>
+                  )}
+                  {step.extracted && (
+                    <div className="text-sm text-muted-foreground ml-6">
+                      Stored {`{{${step.extracted.variable}}}`} = {step.extracted.value}
+                    </div>
+                  )}
+                  {step.performance && (
+                    <div className="text-xs text-muted-foreground ml-6" title={step.performance.url}>
+                      Page load: {describePerformance(step.performance)}
+                    </div>
+                  )}
+                  {describeStepLogs(step.id) && (
+                    <div className="text-xs text-muted-foreground ml-6">
+                      {describeStepLogs(step.id)}
+                    </div>
+                  )}
+                  {step.retries && step.retries.length > 0 && (
+                    <div className="text-xs text-amber-600 ml-6">
+                      Retried {step.retries.length} time{step.retries.length === 1 ? '' : 's'}
+                    </div>
+                  )}
+                  {step.error && (
+                    <div className="text-sm text-red-600 ml-6">
+                      Error: {step.error}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Failed assertions */}
+        {execution.failures && execution.failures.some((failure) => failure.assertion) && (
+          <div className="space-y-1 text-sm">
+            <h3 className="font-semibold">Failed Assertions</h3>
+            {execution.failures
+              .filter((failure) => failure.assertion)
+              .map((failure) => (
+                <div key={failure.stepId} className="border border-red-200 rounded-lg p-2">
+                  <div className="font-medium">{failure.description || failure.stepId}</div>
+                  <div className="text-muted-foreground">
+                    {failure.assertion!.not ? 'not ' : ''}
+                    {failure.assertion!.type}
+                    {failure.assertion!.operator ? ` ${failure.assertion!.operator}` : ''}
+                    {failure.assertion!.expected !== undefined &&
+                      `: expected ${JSON.stringify(failure.assertion!.expected)}`}
                   </div>
-                )}
-              </div>
-            ))}
+                  {failure.assertion!.actual !== undefined && (
+                    <div className="text-red-600 truncate">
+                      actual {JSON.stringify(failure.assertion!.actual)}
+                    </div>
+                  )}
+                </div>
+              ))}
           </div>
-        </div>
+        )}
+
+        {/* Console, uncaught exceptions and failed requests */}
+        {execution.browserLogs && execution.browserLogs.length > 0 && (
+          <BrowserLogs entries={execution.browserLogs} />
+        )}
+
+        {/* Page load metrics across runs of this test */}
+        {execution.testKey && execution.endTime && onLoadPerformance && (
+          <PerformanceChart
+            testKey={execution.testKey}
+            testId={execution.id}
+            onLoad={onLoadPerformance}
+          />
+        )}
+
+        {/* Requests the page made */}
+        {execution.network && execution.network.length > 0 && (
+          <NetworkLog entries={execution.network} />
+        )}
 
         {/* Error Message */}
         {execution.error && (
-          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-800">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-800 whitespace-pre-line">
             <strong>Error:</strong> {execution.error}
           </div>
         )}
 
+        {/* Failure Diagnosis */}
+        {execution.diagnosis && (
+          <div className="border border-orange-200 bg-orange-50 rounded-lg p-3 space-y-1 text-sm">
+            <div className="font-semibold text-orange-900">
+              Likely cause: {execution.diagnosis.cause.replace(/_/g, ' ')}
+            </div>
+            <div className="text-orange-900">{execution.diagnosis.summary}</div>
+            {execution.diagnosis.evidence.length > 0 && (
+              <ul className="list-disc ml-5 text-orange-800">
+                {execution.diagnosis.evidence.map((item, index) => (
+                  <li key={index}>{item}</li>
+                ))}
+              </ul>
+            )}
+            {execution.diagnosis.suggestedFix && (
+              <div className="text-orange-900">
+                <strong>Suggested fix:</strong> {execution.diagnosis.suggestedFix.description}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Healing */}
+        {execution.healedSteps || execution.failedHeals ? (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-amber-800 text-sm">
+            {execution.healedSteps
+              ? `${execution.status === 'failed' ? 'Ran' : 'Passed'} with ${
+                  execution.healedSteps
+                } healed step${execution.healedSteps === 1 ? '' : 's'}`
+              : 'No step was healed'}
+            {execution.failedHeals
+              ? `, ${execution.failedHeals} failed healing attempt${
+                  execution.failedHeals === 1 ? '' : 's'
+                }`
+              : ''}
+          </div>
+        ) : null}
+
+        {/* Artifacts */}
+        {(execution.trace || execution.video) && (
+          <div className="flex gap-4 text-sm">
+            {execution.trace && (
+              <a href={`${apiUrl}${execution.trace}`} className="flex items-center gap-1 text-primary hover:underline">
+                <Download className="w-4 h-4" />
+                Trace
+              </a>
+            )}
+            {execution.video && (
+              <a href={`${apiUrl}${execution.video}`} className="flex items-center gap-1 text-primary hover:underline">
+                <Download className="w-4 h-4" />
+                Video
+              </a>
+            )}
+          </div>
+        )}
+
         {/* Timing */}
         {execution.endTime && (
           <div className="text-sm text-muted-foreground">
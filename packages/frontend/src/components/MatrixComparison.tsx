@@ -0,0 +1,111 @@
+'use client';
+
+import { ChildRun, ChildStepResult, MatrixCell } from '@quality-pilot/shared';
+
+interface MatrixComparisonProps {
+  runs: ChildRun[];
+}
+
+export function formatCell(cell: MatrixCell): string {
+  return [
+    cell.browser,
+    cell.viewport && `${cell.viewport.width}×${cell.viewport.height}`,
+    cell.device,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/**
+ * Step-by-step results of matrix children side by side. Rows where the
+ * children disagree are highlighted, and so is each cell that differs from
+ * the most common outcome in its row. The last row shows each
+ * combination's AI cost; the run's total includes all of them.
+ */
+export function MatrixComparison({ runs }: MatrixComparisonProps) {
+  const stepCount = Math.max(0, ...runs.map((run) => run.steps?.length ?? 0));
+  if (stepCount === 0) return null;
+
+  const rows = Array.from({ length: stepCount }, (_, index) => {
+    const cells = runs.map((run) => run.steps?.[index]);
+    const outcomes = cells.map((step) => step?.status ?? 'missing');
+    const counts = new Map<string, number>();
+    outcomes.forEach((outcome) => counts.set(outcome, (counts.get(outcome) ?? 0) + 1));
+    const common = [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+    return {
+      description: cells.find((step) => step)?.description ?? `Step ${index + 1}`,
+      cells,
+      outcomes,
+      common,
+      differs: counts.size > 1,
+    };
+  });
+
+  const getCellLabel = (step?: ChildStepResult) => {
+    if (!step) return '—';
+    switch (step.status) {
+      case 'completed':
+        return '✓';
+      case 'failed':
+        return '✗';
+      default:
+        return step.status;
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="font-semibold">Comparison</h3>
+      <div className="overflow-x-auto">
+        <table className="text-xs border-collapse w-full">
+          <thead>
+            <tr>
+              <th className="text-left p-1 border">Step</th>
+              {runs.map((run) => (
+                <th key={run.testId} className="p-1 border font-medium">
+                  {run.cell ? formatCell(run.cell) : run.testId}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={index} className={row.differs ? 'bg-amber-50' : undefined}>
+                <td className="p-1 border">
+                  {index + 1}. {row.description}
+                </td>
+                {row.cells.map((step, cellIndex) => (
+                  <td
+                    key={runs[cellIndex].testId}
+                    title={step?.error}
+                    className={`p-1 border text-center ${
+                      step?.status === 'failed' ? 'text-red-600' : 'text-green-600'
+                    } ${
+                      row.differs && row.outcomes[cellIndex] !== row.common
+                        ? 'ring-2 ring-inset ring-amber-500 font-semibold'
+                        : ''
+                    }`}
+                  >
+                    {getCellLabel(step)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+          {runs.some((run) => run.aiUsage) && (
+            <tfoot>
+              <tr>
+                <td className="p-1 border text-muted-foreground">AI cost</td>
+                {runs.map((run) => (
+                  <td key={run.testId} className="p-1 border text-center text-muted-foreground">
+                    {run.aiUsage ? `$${run.aiUsage.costUsd.toFixed(4)}` : '—'}
+                  </td>
+                ))}
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+    </div>
+  );
+}
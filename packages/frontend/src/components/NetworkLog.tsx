@@ -0,0 +1,67 @@
+'use client';
+
+import { useState } from 'react';
+import { NetworkLogEntry } from '@quality-pilot/shared';
+
+interface NetworkLogProps {
+  entries: NetworkLogEntry[];
+}
+
+// Resource types shown unless every request is asked for
+const API_TYPES = new Set(['document', 'fetch', 'xhr']);
+
+export function NetworkLog({ entries }: NetworkLogProps) {
+  const [showAll, setShowAll] = useState(false);
+  const shown = showAll
+    ? entries
+    : entries.filter((entry) => API_TYPES.has(entry.resourceType) || entry.intercepted);
+  const intercepted = entries.filter((entry) => entry.intercepted).length;
+
+  const getStatusClass = (entry: NetworkLogEntry) => {
+    if (entry.failure || (entry.status !== undefined && entry.status >= 400)) {
+      return 'text-red-600';
+    }
+    return entry.status === undefined ? 'text-muted-foreground' : 'text-green-600';
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Network</h3>
+        <label className="flex items-center gap-1 text-xs text-muted-foreground">
+          <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+          All resource types
+        </label>
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {entries.length} request{entries.length === 1 ? '' : 's'}
+        {intercepted > 0 && `, ${intercepted} intercepted`}
+      </div>
+      <div className="max-h-64 overflow-y-auto">
+        <table className="text-xs w-full">
+          <tbody>
+            {shown.map((entry, index) => (
+              <tr key={index} className="border-b align-top">
+                <td className="p-1 font-medium">{entry.method}</td>
+                <td className={`p-1 ${getStatusClass(entry)}`}>
+                  {entry.status ?? entry.failure ?? '…'}
+                </td>
+                <td className="p-1 break-all" title={entry.stepId}>
+                  {entry.url}
+                </td>
+                <td className="p-1 whitespace-nowrap">
+                  {entry.intercepted && (
+                    <span className="text-amber-600">{entry.intercepted}</span>
+                  )}
+                </td>
+                <td className="p-1 text-right text-muted-foreground whitespace-nowrap">
+                  {entry.durationMs !== undefined && `${entry.durationMs} ms`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { PerformanceMetricName, PerformanceRun } from '@quality-pilot/shared';
+
+interface PerformanceChartProps {
+  testKey: string;
+  // The run being viewed, highlighted in the chart
+  testId: string;
+  onLoad: (testKey: string) => Promise<PerformanceRun[]>;
+}
+
+const METRICS: { name: PerformanceMetricName; label: string; unit: string }[] = [
+  { name: 'lcp', label: 'Largest Contentful Paint', unit: 'ms' },
+  { name: 'fcp', label: 'First Contentful Paint', unit: 'ms' },
+  { name: 'ttfb', label: 'Time to First Byte', unit: 'ms' },
+  { name: 'domContentLoaded', label: 'DOMContentLoaded', unit: 'ms' },
+  { name: 'load', label: 'Load', unit: 'ms' },
+  { name: 'cls', label: 'Cumulative Layout Shift', unit: '' },
+  { name: 'inp', label: 'Slowest interaction (INP)', unit: 'ms' },
+  { name: 'tbt', label: 'Total Blocking Time', unit: 'ms' },
+  { name: 'requests', label: 'Requests', unit: '' },
+  { name: 'transferBytes', label: 'Transfer size', unit: 'KB' },
+];
+
+const WIDTH = 480;
+const HEIGHT = 160;
+const PADDING = { top: 10, right: 10, bottom: 20, left: 50 };
+
+// Runs of one test visit the same pages with different query strings
+function pageOf(url: string) {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * One metric of one page across the test's recent runs
+ */
+export function PerformanceChart({ testKey, testId, onLoad }: PerformanceChartProps) {
+  const [runs, setRuns] = useState<PerformanceRun[]>([]);
+  const [metric, setMetric] = useState<PerformanceMetricName>('lcp');
+  const [page, setPage] = useState('');
+
+  useEffect(() => {
+    onLoad(testKey).then(setRuns);
+  }, [testKey, testId, onLoad]);
+
+  const pages = [
+    ...new Set(runs.flatMap((run) => run.navigations.map((nav) => pageOf(nav.url)))),
+  ];
+  const selectedPage = pages.includes(page) ? page : pages[0];
+  const { unit } = METRICS.find((m) => m.name === metric)!;
+
+  // The first load of the page in each run that measured the metric
+  const points = runs.flatMap((run) => {
+    const nav = run.navigations.find(
+      (nav) => pageOf(nav.url) === selectedPage && nav[metric] !== undefined
+    );
+    if (!nav) return [];
+    const value = metric === 'transferBytes' ? nav[metric] / 1024 : nav[metric]!;
+    return [{ run, value }];
+  });
+
+  if (runs.length === 0) return null;
+
+  const max = Math.max(...points.map((point) => point.value), 0) || 1;
+  const x = (index: number) =>
+    PADDING.left +
+    (points.length === 1
+      ? (WIDTH - PADDING.left - PADDING.right) / 2
+      : (index / (points.length - 1)) * (WIDTH - PADDING.left - PADDING.right));
+  const y = (value: number) =>
+    PADDING.top + (1 - value / max) * (HEIGHT - PADDING.top - PADDING.bottom);
+  const format = (value: number) =>
+    `${metric === 'cls' ? value.toFixed(3) : Math.round(value)}${unit ? ` ${unit}` : ''}`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold">Performance</h3>
+        <div className="flex gap-2">
+          <select
+            value={selectedPage}
+            onChange={(e) => setPage(e.target.value)}
+            className="text-xs border rounded px-1 py-0.5 max-w-[14rem]"
+          >
+            {pages.map((url) => (
+              <option key={url} value={url}>
+                {url}
+              </option>
+            ))}
+          </select>
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as PerformanceMetricName)}
+            className="text-xs border rounded px-1 py-0.5"
+          >
+            {METRICS.map((m) => (
+              <option key={m.name} value={m.name}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {points.length === 0 ? (
+        <div className="text-xs text-muted-foreground">
+          No run measured this metric on this page
+        </div>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full text-xs">
+          <line
+            x1={PADDING.left}
+            y1={HEIGHT - PADDING.bottom}
+            x2={WIDTH - PADDING.right}
+            y2={HEIGHT - PADDING.bottom}
+            className="stroke-gray-300"
+          />
+          <text x={PADDING.left - 4} y={PADDING.top + 4} textAnchor="end" className="fill-gray-500">
+            {format(max)}
+          </text>
+          <text x={PADDING.left - 4} y={HEIGHT - PADDING.bottom} textAnchor="end" className="fill-gray-500">
+            0
+          </text>
+          <text x={WIDTH - PADDING.right} y={HEIGHT - 4} textAnchor="end" className="fill-gray-500">
+            last {points.length} run{points.length === 1 ? '' : 's'}
+          </text>
+          <polyline
+            points={points.map((point, index) => `${x(index)},${y(point.value)}`).join(' ')}
+            fill="none"
+            className="stroke-primary"
+            strokeWidth={2}
+          />
+          {points.map((point, index) => (
+            <circle
+              key={point.run.testId}
+              cx={x(index)}
+              cy={y(point.value)}
+              r={point.run.testId === testId ? 5 : 3}
+              className={point.run.status === 'failed' ? 'fill-red-500' : 'fill-green-500'}
+            >
+              <title>
+                {`${new Date(point.run.startTime).toLocaleString()} · ${format(point.value)}${
+                  point.run.browser ? ` · ${point.run.browser}` : ''
+                }${point.run.status === 'failed' ? ' · failed' : ''}`}
+              </title>
+            </circle>
+          ))}
+        </svg>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { PlanDiffEntry, PlanThreadMessage } from '@quality-pilot/shared';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Send } from 'lucide-react';
+
+interface PlanThreadProps {
+  messages: PlanThreadMessage[];
+  diff: PlanDiffEntry[] | null;
+  busy: boolean;
+  onSend: (instruction: string) => void;
+}
+
+export function PlanThread({ messages, diff, busy, onSend }: PlanThreadProps) {
+  const [instruction, setInstruction] = useState('');
+
+  const handleSend = () => {
+    if (!instruction.trim()) return;
+    onSend(instruction.trim());
+    setInstruction('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Refine Plan</Label>
+
+      {messages.length > 0 && (
+        <div className="border rounded-lg p-2 space-y-1 max-h-48 overflow-y-auto text-sm">
+          {messages.map((message, index) => (
+            <div
+              key={index}
+              className={message.role === 'user' ? 'text-foreground' : 'text-muted-foreground'}
+            >
+              <span className="font-medium">{message.role === 'user' ? 'You' : 'AI'}:</span>{' '}
+              {message.content}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {diff && diff.some((entry) => entry.type !== 'unchanged') && (
+        <div className="border rounded-lg p-2 space-y-1 font-mono text-xs">
+          {diff.map((entry, index) => {
+            switch (entry.type) {
+              case 'added':
+                return (
+                  <div key={index} className="text-green-700">
+                    + {entry.step.action}: {entry.step.description}
+                  </div>
+                );
+              case 'removed':
+                return (
+                  <div key={index} className="text-red-700">
+                    - {entry.step.action}: {entry.step.description}
+                  </div>
+                );
+              case 'changed':
+                return (
+                  <div key={index} className="text-amber-700">
+                    ~ {entry.after.action}: {entry.after.description} ({entry.fields.join(', ')})
+                  </div>
+                );
+              default:
+                return null;
+            }
+          })}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="e.g., also check the toast says Saved"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSend();
+          }}
+          disabled={busy}
+        />
+        <Button onClick={handleSend} variant="outline" disabled={busy || !instruction.trim()}>
+          <Send className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
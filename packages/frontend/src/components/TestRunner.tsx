@@ -1,23 +1,129 @@
 'use client';
 
 import { useState } from 'react';
+import {
+  BrowserName,
+  DatasetSource,
+  FailurePolicy,
+  PlanDiffEntry,
+  PlanReference,
+  PlanThreadMessage,
+  StructuredStep,
+  TestMatrix,
+  TestOptions,
+  Viewport,
+} from '@quality-pilot/shared';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Play } from 'lucide-react';
+import { PlanThread } from '@/components/PlanThread';
+import { ListChecks, Play } from 'lucide-react';
+
+export interface PlanResult {
+  steps: StructuredStep[];
+  plan: PlanReference;
+}
+
+export interface RefineResult extends PlanResult {
+  diff: PlanDiffEntry[];
+}
+
+const BROWSERS: BrowserName[] = ['chromium', 'firefox', 'webkit'];
+
+const VIEWPORTS: Array<{ label: string; viewport: Viewport }> = [
+  { label: 'Desktop', viewport: { width: 1280, height: 720 } },
+  { label: 'Tablet', viewport: { width: 768, height: 1024 } },
+  { label: 'Mobile', viewport: { width: 390, height: 844 } },
+];
 
 interface TestRunnerProps {
-  onSubmit: (prompt: string, url: string, credentials?: Record<string, string>) => void;
+  onSubmit: (
+    prompt: string,
+    url: string,
+    credentials?: Record<string, string>,
+    steps?: StructuredStep[],
+    options?: TestOptions,
+    testData?: Record<string, unknown>,
+    dataset?: DatasetSource,
+    matrix?: TestMatrix
+  ) => void;
+  onPlan: (
+    prompt: string,
+    url: string,
+    options?: TestOptions,
+    testData?: Record<string, unknown>
+  ) => Promise<PlanResult | null>;
+  onRefine: (
+    hash: string,
+    instruction: string,
+    steps?: StructuredStep[]
+  ) => Promise<RefineResult | null>;
+  onLoadThread: (hash: string) => Promise<PlanThreadMessage[]>;
 }
 
-export function TestRunner({ onSubmit }: TestRunnerProps) {
+export function TestRunner({ onSubmit, onPlan, onRefine, onLoadThread }: TestRunnerProps) {
   const [prompt, setPrompt] = useState('');
   const [url, setUrl] = useState('');
   const [credentials, setCredentials] = useState<Record<string, string>>({});
   const [credentialKey, setCredentialKey] = useState('');
   const [credentialValue, setCredentialValue] = useState('');
+  const [testDataText, setTestDataText] = useState('');
+  const [seed, setSeed] = useState('');
+  const [datasetText, setDatasetText] = useState('');
+  const [browsers, setBrowsers] = useState<BrowserName[]>(['chromium']);
+  const [viewports, setViewports] = useState<string[]>(['Desktop']);
+  const [locale, setLocale] = useState('');
+  const [timezone, setTimezone] = useState('');
+  const [planText, setPlanText] = useState('');
+  const [planning, setPlanning] = useState(false);
+  const [planRef, setPlanRef] = useState<PlanReference | null>(null);
+  const [thread, setThread] = useState<PlanThreadMessage[]>([]);
+  const [diff, setDiff] = useState<PlanDiffEntry[] | null>(null);
+  const [regeneratePlan, setRegeneratePlan] = useState(false);
+  const [analyzeFailures, setAnalyzeFailures] = useState(false);
+  const [keepTrace, setKeepTrace] = useState(false);
+  const [failOnError, setFailOnError] = useState(false);
+  const [onFailure, setOnFailure] = useState<FailurePolicy>('stop');
+
+  const buildOptions = (): TestOptions | undefined => {
+    const options: TestOptions = {};
+    if (regeneratePlan) options.regeneratePlan = true;
+    if (analyzeFailures) options.analyzeFailures = true;
+    if (keepTrace) options.trace = 'on';
+    if (failOnError) options.failOnError = true;
+    if (onFailure !== 'stop') options.onFailure = onFailure;
+    if (seed.trim()) options.seed = Number(seed);
+    if (locale.trim()) options.locale = locale.trim();
+    if (timezone.trim()) options.timezone = timezone.trim();
+    return Object.keys(options).length > 0 ? options : undefined;
+  };
+
+  // More than one browser or viewport runs every combination
+  const buildMatrix = (): TestMatrix | undefined => {
+    if (browsers.length <= 1 && viewports.length <= 1) return undefined;
+    return {
+      browsers,
+      viewports: VIEWPORTS.filter((v) => viewports.includes(v.label)).map((v) => v.viewport),
+    };
+  };
+
+  const toggle = <T,>(values: T[], value: T, checked: boolean) =>
+    checked ? [...values, value] : values.filter((v) => v !== value);
+
+  // undefined when empty, null when the JSON is invalid
+  const parseTestData = (): Record<string, unknown> | undefined | null => {
+    if (!testDataText.trim()) return undefined;
+    try {
+      const data = JSON.parse(testDataText);
+      if (typeof data === 'object' && data !== null && !Array.isArray(data)) return data;
+    } catch {
+      // Reported below
+    }
+    alert('Test data must be a JSON object');
+    return null;
+  };
 
   const handleAddCredential = () => {
     if (credentialKey && credentialValue) {
@@ -30,12 +136,107 @@ export function TestRunner({ onSubmit }: TestRunnerProps) {
     }
   };
 
+  const handleReviewPlan = async () => {
+    if (!prompt || !url) {
+      alert('Please provide both a test prompt and URL');
+      return;
+    }
+    const testData = parseTestData();
+    if (testData === null) return;
+
+    setPlanning(true);
+    const result = await onPlan(prompt, url, buildOptions(), testData);
+    if (result) {
+      setPlanText(JSON.stringify(result.steps, null, 2));
+      setPlanRef(result.plan);
+      setDiff(null);
+      setThread(await onLoadThread(result.plan.hash));
+    }
+    setPlanning(false);
+  };
+
+  const handleDiscardPlan = () => {
+    setPlanText('');
+    setPlanRef(null);
+    setThread([]);
+    setDiff(null);
+  };
+
+  const handleRefine = async (instruction: string) => {
+    if (!planRef) return;
+
+    // Refine what is in the editor, including any hand edits
+    let steps: StructuredStep[] | undefined;
+    try {
+      steps = JSON.parse(planText);
+    } catch {
+      alert('The test plan is not valid JSON');
+      return;
+    }
+
+    setPlanning(true);
+    const result = await onRefine(planRef.hash, instruction, steps);
+    if (result) {
+      setPlanText(JSON.stringify(result.steps, null, 2));
+      setPlanRef(result.plan);
+      setDiff(result.diff);
+      setThread(await onLoadThread(result.plan.hash));
+    }
+    setPlanning(false);
+  };
+
   const handleSubmit = () => {
     if (!prompt || !url) {
       alert('Please provide both a test prompt and URL');
       return;
     }
-    onSubmit(prompt, url, Object.keys(credentials).length > 0 ? credentials : undefined);
+
+    // A reviewed plan is run exactly as edited, without generating a new one
+    let steps: StructuredStep[] | undefined;
+    if (planText.trim()) {
+      try {
+        steps = JSON.parse(planText);
+      } catch {
+        alert('The test plan is not valid JSON');
+        return;
+      }
+    }
+
+    const testData = parseTestData();
+    if (testData === null) return;
+
+    // One run per row; a JSON array or CSV with a header line
+    const content = datasetText.trim();
+    const dataset: DatasetSource | undefined = content
+      ? { format: content.startsWith('[') ? 'json' : 'csv', content }
+      : undefined;
+    const matrix = buildMatrix();
+    if (dataset && matrix) {
+      alert('A dataset run uses a single browser and viewport');
+      return;
+    }
+    if (browsers.length === 0 || viewports.length === 0) {
+      alert('Select at least one browser and viewport');
+      return;
+    }
+
+    // A single selection is a plain run with those options
+    const options = buildOptions() ?? {};
+    if (!matrix) {
+      options.browser = browsers[0];
+      options.viewport = VIEWPORTS.find((v) => v.label === viewports[0])?.viewport;
+    }
+
+    onSubmit(
+      prompt,
+      url,
+      Object.keys(credentials).length > 0 ? credentials : undefined,
+      steps,
+      options,
+      testData,
+      dataset,
+      matrix
+    );
   };
 
   return (
@@ -98,10 +299,165 @@ export function TestRunner({ onSubmit }: TestRunnerProps) {
           )}
         </div>
 
-        <Button onClick={handleSubmit} className="w-full" size="lg">
-          <Play className="mr-2 h-4 w-4" />
-          Run Test
-        </Button>
+        <div className="space-y-2">
+          <Label htmlFor="testData">Test Data (Optional)</Label>
+          <Textarea
+            id="testData"
+            className="font-mono text-xs"
+            placeholder={'{"plan": "Pro"}  — use as {{testData.plan}}; generated values like {{gen.email}} need no setup'}
+            value={testDataText}
+            onChange={(e) => setTestDataText(e.target.value)}
+            rows={3}
+          />
+          <Input
+            type="number"
+            placeholder="Seed for generated data (random if empty)"
+            value={seed}
+            onChange={(e) => setSeed(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="dataset">Dataset (Optional)</Label>
+          <Textarea
+            id="dataset"
+            className="font-mono text-xs"
+            placeholder={'CSV with a header line, or a JSON array of objects. Runs the test once per row; use columns as {{testData.column}}'}
+            value={datasetText}
+            onChange={(e) => setDatasetText(e.target.value)}
+            rows={3}
+          />
+        </div>
+
+        <div className="space-y-1 text-sm text-muted-foreground">
+          <div className="flex flex-wrap items-center gap-3">
+            <span>Browsers:</span>
+            {BROWSERS.map((browser) => (
+              <label key={browser} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={browsers.includes(browser)}
+                  onChange={(e) => setBrowsers(toggle(browsers, browser, e.target.checked))}
+                />
+                {browser}
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <span>Viewports:</span>
+            {VIEWPORTS.map(({ label, viewport }) => (
+              <label key={label} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={viewports.includes(label)}
+                  onChange={(e) => setViewports(toggle(viewports, label, e.target.checked))}
+                />
+                {label} ({viewport.width}×{viewport.height})
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Locale (e.g. de-DE)"
+              value={locale}
+              onChange={(e) => setLocale(e.target.value)}
+            />
+            <Input
+              placeholder="Time zone (e.g. Europe/Berlin)"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={regeneratePlan}
+            onChange={(e) => setRegeneratePlan(e.target.checked)}
+          />
+          Regenerate plan instead of reusing the pinned version
+        </label>
+
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={analyzeFailures}
+            onChange={(e) => setAnalyzeFailures(e.target.checked)}
+          />
+          Analyze failures with AI
+        </label>
+
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={keepTrace}
+            onChange={(e) => setKeepTrace(e.target.checked)}
+          />
+          Keep the Playwright trace even if the test passes
+        </label>
+
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={failOnError}
+            onChange={(e) => setFailOnError(e.target.checked)}
+          />
+          Fail steps on console errors, uncaught exceptions and failed requests
+        </label>
+
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Label htmlFor="onFailure">When a step fails</Label>
+          <select
+            id="onFailure"
+            className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+            value={onFailure}
+            onChange={(e) => setOnFailure(e.target.value as FailurePolicy)}
+          >
+            <option value="stop">Stop the test</option>
+            <option value="soft">Keep going past failed assertions</option>
+            <option value="continue">Keep going past any failure</option>
+          </select>
+        </div>
+
+        {planText && (
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <Label htmlFor="plan">
+                Test Plan{planRef && ` (v${planRef.version})`}
+              </Label>
+              <Button onClick={handleDiscardPlan} variant="ghost" size="sm">
+                Discard
+              </Button>
+            </div>
+            <Textarea
+              id="plan"
+              className="font-mono text-xs"
+              value={planText}
+              onChange={(e) => setPlanText(e.target.value)}
+              rows={12}
+            />
+            {planRef && (
+              <PlanThread
+                messages={thread}
+                diff={diff}
+                busy={planning}
+                onSend={handleRefine}
+              />
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button onClick={handleReviewPlan} variant="outline" size="lg" disabled={planning}>
+            <ListChecks className="mr-2 h-4 w-4" />
+            {planning ? 'Planning...' : 'Review Plan'}
+          </Button>
+          <Button onClick={handleSubmit} className="flex-1" size="lg">
+            <Play className="mr-2 h-4 w-4" />
+            {planText ? 'Run Plan' : 'Run Test'}
+          </Button>
+        </div>
       </CardContent>
     </Card>
   );
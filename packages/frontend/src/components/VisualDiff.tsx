@@ -0,0 +1,71 @@
+'use client';
+
+import { useState } from 'react';
+import { VisualBaseline, VisualComparison } from '@quality-pilot/shared';
+import { Button } from '@/components/ui/button';
+
+interface VisualDiffProps {
+  comparison: VisualComparison;
+  apiUrl: string;
+  onApprove?: () => Promise<VisualBaseline | null>;
+}
+
+export function VisualDiff({ comparison, apiUrl, onApprove }: VisualDiffProps) {
+  const [approved, setApproved] = useState<VisualBaseline | null>(null);
+  const [approving, setApproving] = useState(false);
+
+  const handleApprove = async () => {
+    if (!onApprove) return;
+    setApproving(true);
+    setApproved(await onApprove());
+    setApproving(false);
+  };
+
+  const getSummary = () => {
+    switch (comparison.status) {
+      case 'created':
+        return `New baseline "${comparison.baseline}" saved`;
+      case 'matched':
+        return `Matches baseline "${comparison.baseline}"`;
+      case 'changed':
+        return comparison.mismatch
+          ? `Differs from baseline "${comparison.baseline}": ${comparison.mismatch}`
+          : `Differs from baseline "${comparison.baseline}" in ${(
+              (comparison.diffRatio ?? 0) * 100
+            ).toFixed(2)}% of pixels`;
+    }
+  };
+
+  const links = [
+    { label: 'Baseline', url: comparison.expected },
+    { label: 'Actual', url: comparison.actual },
+    { label: 'Diff', url: comparison.diff },
+  ].filter((link) => link.url);
+
+  return (
+    <div className="space-y-1 text-xs">
+      <div className={comparison.status === 'changed' ? 'text-red-600' : 'text-muted-foreground'}>
+        {getSummary()}
+      </div>
+      <div className="flex items-center gap-3">
+        {links.map((link) => (
+          <a
+            key={link.label}
+            href={`${apiUrl}${link.url}`}
+            target="_blank"
+            rel="noreferrer"
+            className="text-primary hover:underline"
+          >
+            {link.label}
+          </a>
+        ))}
+        {comparison.status === 'changed' && onApprove && !approved && (
+          <Button size="sm" variant="outline" onClick={handleApprove} disabled={approving}>
+            {approving ? 'Approving...' : 'Approve as baseline'}
+          </Button>
+        )}
+        {approved && <span className="text-green-600">Approved as v{approved.version}</span>}
+      </div>
+    </div>
+  );
+}
@@ -5,16 +5,299 @@ export interface TestPrompt {
   testData?: Record<string, any>;
   url: string;
   options?: TestOptions;
+  // Explicit plan to execute instead of generating one
+  steps?: StructuredStep[];
+  // Run once per row, with the row merged into testData
+  dataset?: DatasetSource;
+  // Run once per browser/viewport/device combination, all with the same plan
+  matrix?: TestMatrix;
+}
+
+// A stored dataset, or one uploaded with the run
+export type DatasetSource =
+  | { id: string }
+  | { format: DatasetFormat; content: string; name?: string };
+
+export type DatasetFormat = 'csv' | 'json';
+
+export type DatasetRow = Record<string, string | number | boolean | null>;
+
+export interface Dataset {
+  id: string;
+  name?: string;
+  format: DatasetFormat;
+  columns: string[];
+  rows: DatasetRow[];
+  createdAt: number;
 }
 
 export interface TestOptions {
-  browser?: 'chromium' | 'firefox' | 'webkit';
+  browser?: BrowserName;
   headless?: boolean;
+  // Default action timeout in ms
   timeout?: number;
-  viewport?: {
-    width: number;
-    height: number;
-  };
+  navigationTimeout?: number;
+  // How long assertions are polled until they pass, in ms (default 5s, or timeout if shorter)
+  assertionTimeout?: number;
+  // Extra attempts for a failed step, waiting retryBackoffMs, then twice that, ...
+  retries?: number;
+  retryBackoffMs?: number;
+  viewport?: Viewport;
+  // Playwright device profile, e.g. 'iPhone 13'; an explicit viewport overrides its size
+  device?: string;
+  selfHealing?: boolean;
+  mode?: ExecutionMode;
+  maxSteps?: number;
+  ai?: AIConfig;
+  // Generate a fresh plan instead of reusing the pinned one
+  regeneratePlan?: boolean;
+  // Ask the AI for a root-cause diagnosis when a step fails
+  analyzeFailures?: boolean;
+  // Max AI spend for this run in USD; defaults to AI_RUN_BUDGET_USD
+  aiBudgetUsd?: number;
+  trace?: TraceMode;
+  // Default for steps without their own onFailure; 'stop' if unset
+  onFailure?: FailurePolicy;
+  // Seed for generated test data ({{gen.*}}); random unless set, and recorded on the execution
+  seed?: number;
+  // Browser locale, also used for generated names and addresses, e.g. 'de-DE'
+  locale?: string;
+  // IANA time zone, e.g. 'Europe/Berlin'
+  timezone?: string;
+  userAgent?: string;
+  geolocation?: Geolocation;
+  colorScheme?: ColorScheme;
+  // Browser permissions to grant, e.g. 'clipboard-read'; geolocation is granted with a geolocation
+  permissions?: string[];
+  extraHTTPHeaders?: Record<string, string>;
+  // Fail the step during which the page reports an error; true for every source
+  failOnError?: boolean | BrowserErrorPolicy;
+}
+
+export interface BrowserErrorPolicy {
+  // Sources whose errors fail the step; all of them if unset
+  sources?: BrowserLogSource[];
+  // Errors whose text matches one of these regular expressions ("pattern" or
+  // "/pattern/flags") are ignored
+  allow?: string[];
+}
+
+export type BrowserLogSource = 'console' | 'pageerror' | 'requestfailed';
+
+export type BrowserLogLevel = 'debug' | 'info' | 'warning' | 'error';
+
+// Something the page reported while a step ran
+export interface BrowserLogEntry {
+  source: BrowserLogSource;
+  level: BrowserLogLevel;
+  text: string;
+  // Script location for console messages, the request URL for failed requests
+  location?: string;
+  stepId?: string;
+  timestamp: number;
+}
+
+// Entries per level, sent with test_completed and test_failed in place of
+// the browser logs, which clients load from GET /api/test/status/:testId
+export type BrowserLogCounts = Record<BrowserLogLevel, number>;
+
+export interface Geolocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+}
+
+export type ColorScheme = 'light' | 'dark' | 'no-preference';
+
+// The browser context a run actually used
+export interface RunEnvironment {
+  browser: BrowserName;
+  browserVersion: string;
+  viewport: Viewport | null;
+  device?: string;
+  userAgent: string;
+  isMobile?: boolean;
+  locale?: string;
+  timezone?: string;
+  geolocation?: Geolocation;
+  colorScheme?: ColorScheme;
+  permissions?: string[];
+  // Header names only; values may be credentials
+  extraHTTPHeaders?: string[];
+}
+
+export type BrowserName = 'chromium' | 'firefox' | 'webkit';
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+// Every combination of the listed browsers, viewports and devices runs as a child
+// run; a dimension left out uses the value from options
+export interface TestMatrix {
+  browsers?: BrowserName[];
+  viewports?: Viewport[];
+  devices?: string[];
+}
+
+export interface MatrixCell {
+  browser: BrowserName;
+  viewport?: Viewport;
+  device?: string;
+}
+
+// Playwright tracing: 'on' keeps every trace, 'retain-on-failure' (default) only failed runs'
+export type TraceMode = 'off' | 'on' | 'retain-on-failure';
+
+// AI provider used to generate steps; defaults come from LLM_PROVIDER / LLM_MODEL
+export type AIProviderName = 'gemini' | 'openai' | 'fixture';
+
+export interface AIConfig {
+  provider?: AIProviderName;
+  model?: string;
+}
+
+// 'plan' generates all steps upfront; 'agent' observes the page and decides one step at a time
+export type ExecutionMode = 'plan' | 'agent';
+
+// After a failed step: 'stop' ends the run, 'continue' runs the remaining steps,
+// 'soft' keeps going past failed assertions but stops on failed actions.
+// Any failed step still fails the run.
+export type FailurePolicy = 'stop' | 'continue' | 'soft';
+
+// AI-generated plan entry, before execution
+export interface StructuredStep {
+  action: TestAction;
+  target?: string;
+  value?: string;
+  assertion?: Omit<Assertion, 'actual' | 'passed'>;
+  description: string;
+  onFailure?: FailurePolicy;
+  // Per-step overrides of the run's timeout and retries
+  timeout?: number;
+  retries?: number;
+  // For 'extract' steps
+  extract?: Extraction;
+  // For 'mock' steps, which answer requests to the URL pattern in `target`
+  mock?: NetworkMock;
+  // For 'audit' steps
+  audit?: A11yAuditOptions;
+}
+
+// Which axe-core rules an 'audit' step runs; every rule if unset
+export interface A11yAuditOptions {
+  // Rule tags, e.g. 'wcag2a', 'wcag2aa', 'best-practice'
+  tags?: string[];
+  // Rule ids to skip, e.g. 'color-contrast'
+  disableRules?: string[];
+}
+
+export type A11yImpact = 'minor' | 'moderate' | 'serious' | 'critical';
+
+// Violations axe-core found on the page (or the step target)
+export interface A11yAudit {
+  url: string;
+  violations: A11yViolation[];
+  // Rules that passed, and rules axe could not decide
+  passes: number;
+  incomplete: number;
+}
+
+export interface A11yViolation {
+  // axe rule id, e.g. 'color-contrast'
+  id: string;
+  impact?: A11yImpact;
+  help: string;
+  helpUrl: string;
+  nodes: A11yNode[];
+  // Artifact URL of a crop around the first node
+  screenshot?: string;
+}
+
+export interface A11yNode {
+  // CSS selector of the element
+  target: string;
+  html: string;
+  failureSummary?: string;
+}
+
+// How a 'mock' step answers matching requests: a fixture response, a network
+// error, or (with only delayMs) the real response after a delay
+export interface NetworkMock {
+  // Only requests with this method, e.g. 'POST'
+  method?: string;
+  status?: number;
+  // Fixture response body; objects and arrays are sent as JSON
+  body?: string | Record<string, unknown> | unknown[];
+  contentType?: string;
+  headers?: Record<string, string>;
+  delayMs?: number;
+  abort?: NetworkErrorCode;
+  // Only the next N matching requests; every one if unset
+  times?: number;
+}
+
+// Playwright's route.abort() error codes
+export type NetworkErrorCode =
+  | 'aborted'
+  | 'accessdenied'
+  | 'addressunreachable'
+  | 'blockedbyclient'
+  | 'blockedbyresponse'
+  | 'connectionaborted'
+  | 'connectionclosed'
+  | 'connectionfailed'
+  | 'connectionrefused'
+  | 'connectionreset'
+  | 'internetdisconnected'
+  | 'namenotresolved'
+  | 'timedout'
+  | 'failed';
+
+// One request the page made during a run
+export interface NetworkLogEntry {
+  method: string;
+  url: string;
+  resourceType: string;
+  // Step running when the request started
+  stepId?: string;
+  status?: number;
+  // Network error, e.g. 'net::ERR_FAILED'
+  failure?: string;
+  // Set when a mock or block step handled the request
+  intercepted?: 'mocked' | 'delayed' | 'aborted' | 'blocked';
+  startTime: number;
+  durationMs?: number;
+}
+
+// Sent with test_completed and test_failed in place of the network log,
+// which clients load from GET /api/test/status/:testId
+export interface NetworkSummary {
+  requests: number;
+  // Network errors and 4xx/5xx responses
+  failed: number;
+  intercepted: number;
+}
+
+// Stores a value from the page in a run variable, referenced later as {{variable}}
+// in target, value and assertion expected
+export interface Extraction {
+  variable: string;
+  // 'text', 'value' and 'attribute' read the step target; 'url' the page URL
+  from: 'text' | 'value' | 'attribute' | 'url';
+  attribute?: string;
+  // Regular expression; the first capture group (or whole match) is stored
+  pattern?: string;
+  // Masked in step events and logs
+  secret?: boolean;
+}
+
+export interface ExtractedValue {
+  variable: string;
+  // Masked when secret
+  value: string;
+  secret?: boolean;
 }
 
 // AI-generated test steps
@@ -27,7 +310,94 @@ export interface TestStep {
   timestamp: number;
   status: StepStatus;
   error?: string;
+  description?: string;
   screenshot?: string;
+  resolution?: TargetResolution;
+  healed?: HealedTarget;
+  // Every healing attempt, including ones that found no working locator
+  healAttempts?: HealAttempt[];
+  // Failed attempts that were retried
+  retries?: StepRetry[];
+  extracted?: ExtractedValue;
+  // Set by 'audit' steps and 'a11y' assertions
+  audit?: A11yAudit;
+  // Set by 'visual' assertions
+  visual?: VisualComparison;
+  // Set on the step that loaded a page, and updated while later steps stay on it
+  performance?: PerformanceMetrics;
+}
+
+// Measured in the browser for one page load; metrics a browser cannot report
+// (LCP, CLS, INP and TBT outside Chromium) are left out
+export interface PerformanceMetrics {
+  url: string;
+  // Navigation timing, in ms from the start of the navigation
+  ttfb?: number;
+  domContentLoaded?: number;
+  load?: number;
+  fcp?: number;
+  lcp?: number;
+  // Sum of layout shifts without recent input
+  cls?: number;
+  // Slowest interaction so far, and long-task time beyond 50ms
+  inp?: number;
+  tbt?: number;
+  // The document and its resources; cross-origin resources without
+  // Timing-Allow-Origin count as 0 bytes
+  requests: number;
+  transferBytes: number;
+}
+
+export type PerformanceMetricName = Exclude<keyof PerformanceMetrics, 'url'>;
+
+// One run's page loads, for comparing runs of the same test
+export interface PerformanceRun {
+  testId: string;
+  startTime: number;
+  status: ExecutionStatus;
+  browser?: BrowserName;
+  navigations: Array<PerformanceMetrics & { stepId: string }>;
+}
+
+// Outcome of a 'visual' assertion; images are artifact URLs
+export interface VisualComparison {
+  baseline: string;
+  // Baseline id, derived from the test, baseline name, browser and viewport
+  key: string;
+  // 'created' when the run had no baseline yet and its screenshot became one
+  status: 'matched' | 'changed' | 'created';
+  diffPixels?: number;
+  diffRatio?: number;
+  // Why the images could not be compared pixel by pixel
+  mismatch?: string;
+  actual: string;
+  expected?: string;
+  diff?: string;
+}
+
+// Approved reference screenshot for one test, baseline name, browser and viewport
+export interface VisualBaseline {
+  key: string;
+  name: string;
+  // Identifies the test by prompt and URL
+  testKey: string;
+  browser: BrowserName;
+  viewport: Viewport | null;
+  version: number;
+  image: string;
+  width: number;
+  height: number;
+  // Run and step the screenshot was taken in
+  testId: string;
+  stepId: string;
+  approvedAt: number;
+}
+
+export interface StepRetry {
+  attempt: number;
+  error: string;
+  delayMs: number;
+  timestamp: number;
 }
 
 export type TestAction =
@@ -40,14 +410,106 @@ export type TestAction =
   | 'screenshot'
   | 'scroll'
   | 'hover'
-  | 'keyboard';
+  | 'keyboard'
+  | 'extract'
+  | 'mock'
+  | 'block'
+  | 'audit';
+
+// Target resolution (how a human-readable target was mapped to an element)
+export type TargetStrategy =
+  | 'role'
+  | 'label'
+  | 'placeholder'
+  | 'name'
+  | 'id'
+  | 'testid'
+  | 'text'
+  | 'selector'
+  | 'type';
+
+export interface TargetCandidate {
+  strategy: TargetStrategy;
+  selector: string;
+  count: number;
+  visible: number;
+}
+
+export interface TargetResolution {
+  target: string;
+  strategy: TargetStrategy;
+  selector: string;
+  candidates: TargetCandidate[];
+}
+
+// AI replacement for a target that could not be found
+export interface HealedTarget {
+  from: string;
+  to: string;
+  reason?: string;
+}
+
+// One healing pass; `to` is unset when the AI suggested no locator
+export interface HealAttempt {
+  from: string;
+  to?: string;
+  reason?: string;
+  healed: boolean;
+  error?: string;
+  timestamp: number;
+}
 
 export type StepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
 
+// Assertions check the step's target element; only text, url, title,
+// element (a selector in `expected`), request and a11y work without one
+export type AssertionType =
+  | 'text'
+  | 'value'
+  | 'attribute'
+  | 'url'
+  | 'title'
+  | 'count'
+  | 'number'
+  | 'visible'
+  | 'hidden'
+  | 'enabled'
+  | 'checked'
+  | 'element'
+  | 'request'
+  // No accessibility violation at or above the impact in `expected`
+  | 'a11y'
+  // Screenshot of the page (or target) matches the baseline named in `expected`
+  | 'visual'
+  // A metric of the current page's performance, compared to `expected` ('lte' by default)
+  | 'performance';
+
+// 'contains' is the default for text, url and title; 'equals' for the rest.
+// 'matches' treats `expected` as a regular expression ("pattern" or "/pattern/flags").
+export type AssertionOperator = 'contains' | 'equals' | 'matches' | 'gt' | 'gte' | 'lt' | 'lte';
+
 export interface Assertion {
-  type: 'text' | 'element' | 'url' | 'title' | 'count';
-  expected: string | number;
-  actual?: string | number;
+  type: AssertionType;
+  // Not used by state assertions (visible, hidden, enabled, checked)
+  expected?: string | number;
+  operator?: AssertionOperator;
+  // Attribute name for 'attribute' assertions
+  attribute?: string;
+  // For 'request' assertions, which match `expected` against request URLs made
+  // so far in the run: the method, response status and JSON or form body fields
+  // (dot paths, e.g. 'items.0.sku') the request must have
+  method?: string;
+  status?: number;
+  body?: Record<string, string | number | boolean | null>;
+  // For 'visual' assertions: the share of pixels (0-1) allowed to differ from
+  // the baseline, and targets painted over before comparing (clocks, ads)
+  threshold?: number;
+  mask?: string[];
+  // For 'performance' assertions
+  metric?: PerformanceMetricName;
+  // Pass when the check fails
+  not?: boolean;
+  actual?: string | number | boolean;
   passed?: boolean;
 }
 
@@ -60,8 +522,79 @@ export interface TestExecution {
   startTime: number;
   endTime?: number;
   error?: string;
+  // Artifact download URLs
   screenshots: string[];
   video?: string;
+  trace?: string;
+  healedSteps?: number;
+  // Healing attempts that did not recover their step
+  failedHeals?: number;
+  plan?: PlanReference;
+  diagnosis?: FailureDiagnosis;
+  // Every failed step, in order
+  failures?: StepFailure[];
+  // API client that submitted the run
+  caller?: string;
+  aiUsage?: AIUsageTotals;
+  // Seed the run's generated test data used; pass it as options.seed to reproduce
+  seed?: number;
+  // Identifies the test by prompt and URL across plan versions, e.g. for its performance history
+  testKey?: string;
+  environment?: RunEnvironment;
+  // Requests the page made, oldest first, up to NETWORK_LOG_MAX_ENTRIES
+  network?: NetworkLogEntry[];
+  // Console messages, uncaught exceptions and failed requests, oldest first,
+  // up to BROWSER_LOG_MAX_ENTRIES
+  browserLogs?: BrowserLogEntry[];
+  // Set on runs fanned out from a parent run
+  parentId?: string;
+  row?: number;
+  cell?: MatrixCell;
+  // Set on parent runs, which execute no steps themselves
+  dataset?: { id: string; name?: string; rows: number };
+  children?: ChildRun[];
+  summary?: ChildRunSummary;
+}
+
+// One child of a parent run, e.g. a dataset row
+export interface ChildRun {
+  testId: string;
+  status: ExecutionStatus;
+  row?: number;
+  testData?: Record<string, any>;
+  cell?: MatrixCell;
+  error?: string;
+  startTime?: number;
+  endTime?: number;
+  // Step outcomes once the child has finished, for comparing children
+  steps?: ChildStepResult[];
+  // The child's own AI calls; the parent's aiUsage includes them
+  aiUsage?: AIUsageTotals;
+}
+
+export interface ChildStepResult {
+  id: string;
+  action: TestAction;
+  description?: string;
+  status: TestStep['status'];
+  error?: string;
+}
+
+export interface ChildRunSummary {
+  total: number;
+  queued: number;
+  running: number;
+  passed: number;
+  failed: number;
+}
+
+export interface StepFailure {
+  stepId: string;
+  action: TestAction;
+  description?: string;
+  error: string;
+  // Failed assertions only
+  assertion?: Assertion;
 }
 
 export type ExecutionStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
@@ -78,12 +611,29 @@ export type WSMessageType =
   | 'step_started'
   | 'step_completed'
   | 'step_failed'
+  | 'step_retry'
   | 'test_completed'
   | 'test_failed'
   | 'log'
   | 'screenshot'
+  | 'diagnosis'
+  | 'child_updated'
   | 'error';
 
+// AI root-cause analysis of a failed step
+export type FailureCause = 'app_bug' | 'selector_drift' | 'timing' | 'bad_test_data' | 'unknown';
+
+export interface FailureDiagnosis {
+  stepId: string;
+  cause: FailureCause;
+  summary: string;
+  evidence: string[];
+  suggestedFix?: {
+    description: string;
+    step?: StructuredStep;
+  };
+}
+
 // Credential management
 export interface Credential {
   id: string;
@@ -92,3 +642,85 @@ export interface Credential {
   createdAt: number;
   updatedAt: number;
 }
+
+// Stored test plans
+export type PlanSource = 'generated' | 'refined';
+
+export interface PlanVersion {
+  hash: string;
+  version: number;
+  steps: StructuredStep[];
+  source: PlanSource;
+  prompt: string;
+  url: string;
+  provider: string;
+  model: string;
+  // Test data placeholder names offered to the model, e.g. testData.email
+  variables?: string[];
+  createdAt: number;
+  // Set on refined versions
+  parentVersion?: number;
+  instruction?: string;
+}
+
+export interface PlanReference {
+  hash: string;
+  version: number;
+}
+
+// Conversational refinement of a stored plan
+export interface PlanThreadMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  version: number;
+  createdAt: number;
+}
+
+export type PlanDiffEntry =
+  | { type: 'unchanged'; index: number; step: StructuredStep }
+  | { type: 'added'; index: number; step: StructuredStep }
+  | { type: 'removed'; previousIndex: number; step: StructuredStep }
+  | {
+      type: 'changed';
+      index: number;
+      previousIndex: number;
+      before: StructuredStep;
+      after: StructuredStep;
+      fields: Array<keyof StructuredStep>;
+    };
+
+// AI usage accounting
+export interface AIUsageRecord {
+  task: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  costUsd: number;
+  testId?: string;
+  caller?: string;
+  timestamp: number;
+}
+
+export interface AIUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  costUsd: number;
+}
+
+// Run artifacts
+export type ArtifactKind = 'screenshot' | 'video' | 'trace';
+
+export interface ArtifactRecord {
+  kind: ArtifactKind;
+  // Storage key, e.g. "<testId>/screenshots/step_2.png"
+  key: string;
+  url: string;
+  stepId?: string;
+  contentType: string;
+  size: number;
+  createdAt: number;
+}